@@ -1,29 +1,115 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { transcribeAudio, translateText, textToSpeech, getPhoneticTranscription } from './services/geminiService';
-import { SUPPORTED_LANGUAGES, SUPPORTED_VOICES, DEFAULT_TARGET_LANGUAGE, DEFAULT_SOURCE_LANGUAGE, DEFAULT_VOICE, FREE_TRANSLATION_LIMIT, PREMIUM_TRANSLATION_LIMIT } from './constants';
-import { decode, pcmToWavBlob } from './utils';
-import { MicrophoneIcon, StopIcon, SpeakerIcon, CopyIcon, ClearIcon, DownloadIcon } from './components/icons';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { DetectedLanguage, SpeakerTurn, TranslationAlternative, TranslationProvider, isAbortError } from './services/translationProvider';
+import { CachedTranslation, TranslationCache, TranslationCacheKey } from './services/translationCache';
+import { describeError } from './services/errors';
+import { getLocalPhonetics } from './services/bengaliRomanization';
+import { Glossary, GlossaryViolation, checkGlossary, findGlossaryTerms, loadGlossary, saveGlossary } from './services/glossary';
+import { BackTranslationReport, LOW_CONFIDENCE_THRESHOLD, compareBackTranslation } from './services/backTranslation';
+import { processInChunks, splitIntoChunks, translateInChunks } from './services/longText';
+import { decodeAudioFile, findSpeechSegments, formatTranscript, segmentToWav, transcribeSegments, transcribeSegmentsWithSpeakers, trimSilence } from './services/audioSegmentation';
+import { formatSpeakerTranscript } from './services/transcript';
+import { LiveTranscriber, createLiveTranscriber } from './services/liveTranscription';
+import { VoiceActivitySettings, createVoiceActivityDetector, levelToMeter } from './services/voiceActivity';
+import { SUPPORTED_LANGUAGES, SUPPORTED_VOICES, PHONETIC_SCHEMES, FORMALITY_LEVELS, PRONOUN_HINTS, DEFAULT_TARGET_LANGUAGE, DEFAULT_SOURCE_LANGUAGE, AUTO_DETECT_LANGUAGE, DEFAULT_VOICE, DEFAULT_PHONETIC_SCHEME, DEFAULT_FORMALITY, TRANSLATION_CHUNK_LENGTH, SPEECH_CHUNK_LENGTH, AUTO_STOP_OPTIONS, DEFAULT_AUTO_STOP_SILENCE_MS, MAX_RECORDING_SECONDS, PLAYBACK_REPEAT_COUNTS, AUDIO_EXPORT_FORMATS, DEFAULT_AUDIO_EXPORT_FORMAT, EXPORT_SAMPLE_RATES, DEFAULT_AUDIO_FILENAME_TEMPLATE, FREE_TRANSLATION_LIMIT, PREMIUM_TRANSLATION_LIMIT } from './constants';
+import { AudioExportFormat, Formality, GlossaryTerm, PhoneticScheme } from './types';
+import { decode, encode, pcmToWavBlob, stitchPcm } from './utils';
+import { encodeSpeech, formatFileName } from './services/audioExport';
+import { estimateWordTimings, wordAt } from './services/wordTiming';
+import { HistoryEntry, addHistoryEntry, loadHistory, saveHistory } from './services/translationHistory';
+import { MicrophoneIcon, StopIcon, SpeakerIcon, PauseIcon, CopyIcon, ClearIcon, DownloadIcon, UploadIcon } from './components/icons';
 import PaymentModal from './components/PaymentModal';
+import PhoneticTextarea from './components/PhoneticTextarea';
+import GlossaryModal from './components/GlossaryModal';
+import HistoryModal from './components/HistoryModal';
+import SubtitleModal from './components/SubtitleModal';
+import LocalizationModal from './components/LocalizationModal';
+import TranscriptModal from './components/TranscriptModal';
+import ConversationModal from './components/ConversationModal';
+import KaraokeText from './components/KaraokeText';
+import WaveformPlayer, { LoopRegion } from './components/WaveformPlayer';
 
 export type SubscriptionPlan = 'FREE' | 'PREMIUM' | 'PRO';
 
-const App: React.FC = () => {
+type PipelineStage = 'detection' | 'transcription' | 'translation' | 'phonetic' | 'audio' | 'verification';
+type StageStatus = 'idle' | 'pending' | 'done' | 'error';
+
+const PIPELINE_STAGES: { stage: PipelineStage; label: string; pendingLabel: string }[] = [
+    { stage: 'detection', label: 'Language detection', pendingLabel: 'Detecting language...' },
+    { stage: 'transcription', label: 'Transcription', pendingLabel: 'Transcribing...' },
+    { stage: 'translation', label: 'Translation', pendingLabel: 'Translating...' },
+    { stage: 'phonetic', label: 'Pronunciation', pendingLabel: 'Generating pronunciation...' },
+    { stage: 'audio', label: 'Audio', pendingLabel: 'Generating audio...' },
+    { stage: 'verification', label: 'Back-translation', pendingLabel: 'Checking the translation...' },
+];
+
+const IDLE_STAGES: Record<PipelineStage, StageStatus> = { detection: 'idle', transcription: 'idle', translation: 'idle', phonetic: 'idle', audio: 'idle', verification: 'idle' };
+
+// Formats milliseconds as m:ss for the recording timer.
+const formatClock = (ms: number) => `${Math.floor(ms / 60000)}:${String(Math.floor(ms / 1000) % 60).padStart(2, '0')}`;
+
+// One run of the translate → pronounce → speak pipeline.
+interface PipelineRun {
+    id: number;
+    controller: AbortController;
+    // Whether the run consumed a usage credit that must be refunded if it is superseded.
+    charged: boolean;
+}
+
+interface AppProps {
+  provider: TranslationProvider;
+  cache: TranslationCache;
+}
+
+const App: React.FC<AppProps> = ({ provider, cache }) => {
     const [inputText, setInputText] = useState('');
     const [outputText, setOutputText] = useState('');
     const [phoneticText, setPhoneticText] = useState('');
+    const [romanizedText, setRomanizedText] = useState('');
+    const [detectedLanguage, setDetectedLanguage] = useState<DetectedLanguage | null>(null);
     const [sourceLanguage, setSourceLanguage] = useState(DEFAULT_SOURCE_LANGUAGE);
     const [targetLanguage, setTargetLanguage] = useState(DEFAULT_TARGET_LANGUAGE);
     const [selectedVoice, setSelectedVoice] = useState(DEFAULT_VOICE);
+    const [phoneticScheme, setPhoneticScheme] = useState<PhoneticScheme>(DEFAULT_PHONETIC_SCHEME);
+    const [formality, setFormality] = useState<Formality>(DEFAULT_FORMALITY);
+    const [glossary, setGlossary] = useState<Glossary>(loadGlossary);
+    const [glossaryViolations, setGlossaryViolations] = useState<GlossaryViolation[]>([]);
+    const [isAlternativesMode, setIsAlternativesMode] = useState(false);
+    const [alternatives, setAlternatives] = useState<TranslationAlternative[]>([]);
+    const [activeAlternative, setActiveAlternative] = useState(0);
+    const [isVerifyMode, setIsVerifyMode] = useState(false);
+    const [backTranslation, setBackTranslation] = useState<BackTranslationReport | null>(null);
     const [outputAudio, setOutputAudio] = useState<string | null>(null);
     
-    const [isLoading, setIsLoading] = useState(false);
-    const [loadingMessage, setLoadingMessage] = useState('');
+    const [stageStatus, setStageStatus] = useState<Record<PipelineStage, StageStatus>>(IDLE_STAGES);
+    // Chunks done per stage, for long texts that are processed in several requests.
+    const [stageProgress, setStageProgress] = useState<Partial<Record<PipelineStage, { done: number; total: number }>>>({});
     const [error, setError] = useState<string | null>(null);
     const [isRecording, setIsRecording] = useState(false);
     const [isCopied, setIsCopied] = useState(false);
     const [playbackRate, setPlaybackRate] = useState(1.0);
     const [isPlayingAudio, setIsPlayingAudio] = useState(false);
+    const [isAudioPaused, setIsAudioPaused] = useState(false);
+    const [loopRegion, setLoopRegion] = useState<LoopRegion | null>(null);
+    const [repeatCount, setRepeatCount] = useState(PLAYBACK_REPEAT_COUNTS[0]);
+    // The word being spoken during playback, as an index into wordTimings.
+    const [activeWord, setActiveWord] = useState(-1);
     const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
+    const [isPhoneticTyping, setIsPhoneticTyping] = useState(false);
+    const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+    const [history, setHistory] = useState<HistoryEntry[]>(loadHistory);
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isSubtitlesOpen, setIsSubtitlesOpen] = useState(false);
+    const [isLocalizationOpen, setIsLocalizationOpen] = useState(false);
+    const [isConversationOpen, setIsConversationOpen] = useState(false);
+    // Speaker mode transcribes into timed turns with speaker labels instead of plain text.
+    const [isSpeakerMode, setIsSpeakerMode] = useState(false);
+    const [transcript, setTranscript] = useState<SpeakerTurn[] | null>(null);
+    const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+    const [autoStopSilenceMs, setAutoStopSilenceMs] = useState(DEFAULT_AUTO_STOP_SILENCE_MS);
+    const [audioExportFormat, setAudioExportFormat] = useState<AudioExportFormat>(DEFAULT_AUDIO_EXPORT_FORMAT);
+    const [audioExportSampleRate, setAudioExportSampleRate] = useState(EXPORT_SAMPLE_RATES[0]);
+    const [audioFileNameTemplate, setAudioFileNameTemplate] = useState(DEFAULT_AUDIO_FILENAME_TEMPLATE);
+    const [isExportingAudio, setIsExportingAudio] = useState(false);
     
     // Freemium model state
     const [usageCount, setUsageCount] = useState(0);
@@ -36,6 +122,39 @@ const App: React.FC = () => {
     const canvasRef = useRef<HTMLCanvasElement | null>(null);
     const audioElementRef = useRef<HTMLAudioElement | null>(null);
     const currentAudioUrlRef = useRef<string | null>(null);
+    // The section being repeated and the passes left, read from the audio element's handlers and the frame loop.
+    const drillRef = useRef<{ loop: LoopRegion | null; repeatsLeft: number }>({ loop: null, repeatsLeft: 0 });
+    const pipelineRunRef = useRef<PipelineRun | null>(null);
+    const nextPipelineIdRef = useRef(1);
+    // Language detected from a recording, reused when its transcript is translated.
+    const recordingDetectionRef = useRef<{ text: string; detection: DetectedLanguage } | null>(null);
+    // Transcribes the recording window by window while it is going, for a live preview.
+    const liveTranscriberRef = useRef<LiveTranscriber | null>(null);
+    const audioFileInputRef = useRef<HTMLInputElement>(null);
+    // Cancels the transcription of an uploaded file when another one is picked or the input is cleared.
+    const fileTranscriptionRef = useRef<AbortController | null>(null);
+
+    // Schemes like Pinyin only apply to some target languages; others fall back to the simple guide.
+    const availablePhoneticSchemes = PHONETIC_SCHEMES.filter(({ languages }) => !languages || languages.includes(targetLanguage));
+    const activePhoneticScheme = availablePhoneticSchemes.some(({ id }) => id === phoneticScheme) ? phoneticScheme : DEFAULT_PHONETIC_SCHEME;
+
+    // Only the rules that match the input are sent. Keyed by content so unrelated glossary edits don't re-run the translation.
+    const glossaryTermsKey = JSON.stringify(findGlossaryTerms(glossary, inputText, sourceLanguage, targetLanguage));
+    const glossaryTerms = useMemo(() => JSON.parse(glossaryTermsKey) as GlossaryTerm[], [glossaryTermsKey]);
+
+    const isLoading = Object.values(stageStatus).includes('pending');
+    // While a recording is being transcribed, the input only holds its live preview.
+    const isTranscribing = stageStatus.transcription === 'pending';
+    const loadingMessage = PIPELINE_STAGES.filter(({ stage }) => stageStatus[stage] === 'pending').map(({ pendingLabel }) => pendingLabel).join(' ');
+
+    const updateStage = useCallback((stage: PipelineStage, status: StageStatus) => {
+        setStageStatus(current => ({ ...current, [stage]: status }));
+    }, []);
+
+    // Returns a progress callback for a stage; single-chunk texts show no count.
+    const trackProgress = useCallback((stage: PipelineStage) => (done: number, total: number) => {
+        if (total > 1) setStageProgress(current => ({ ...current, [stage]: { done, total } }));
+    }, []);
     
     // Initialize usage and subscription status from localStorage
     useEffect(() => {
@@ -53,9 +172,18 @@ const App: React.FC = () => {
         }
     }, []);
 
-    const handleCoreAction = useCallback((action: () => void) => {
+    useEffect(() => saveGlossary(glossary), [glossary]);
+    useEffect(() => saveHistory(history), [history]);
+
+    // Usage is read through a ref so that handleCoreAction stays the same function: taking a credit
+    // must not re-run the effects that depend on it (the debounced translation would start over).
+    const usageRef = useRef({ usageCount, subscriptionPlan });
+    usageRef.current = { usageCount, subscriptionPlan };
+
+    const handleCoreAction = useCallback((action: (charged: boolean) => void) => {
+        const { usageCount, subscriptionPlan } = usageRef.current;
         if (subscriptionPlan === 'PRO') {
-            action();
+            action(false);
             return;
         }
 
@@ -63,18 +191,43 @@ const App: React.FC = () => {
         
         if (usageCount < limit) {
             const newCount = usageCount + 1;
+            // Two actions in the same render must both see the credit taken.
+            usageRef.current = { usageCount: newCount, subscriptionPlan };
             setUsageCount(newCount);
             try {
                localStorage.setItem('usageCount', newCount.toString());
             } catch(e) {
                 console.error("Could not write to localStorage:", e);
             }
-            action();
+            action(true);
         } else {
             setError(`You have reached your ${subscriptionPlan.toLowerCase()} plan's usage limit. Please upgrade to continue.`);
             setIsPaymentModalOpen(true);
         }
-    }, [subscriptionPlan, usageCount]);
+    }, []);
+
+    // Gives back a credit taken by handleCoreAction for work that never reached the user.
+    const refundUsage = useCallback(() => {
+        usageRef.current = { ...usageRef.current, usageCount: Math.max(0, usageRef.current.usageCount - 1) };
+        setUsageCount(count => {
+            const newCount = Math.max(0, count - 1);
+            try {
+                localStorage.setItem('usageCount', newCount.toString());
+            } catch (e) {
+                console.error("Could not write to localStorage:", e);
+            }
+            return newCount;
+        });
+    }, []);
+
+    // Aborts the in-flight pipeline run, if any, refunding its credit.
+    const cancelPipeline = useCallback(() => {
+        const run = pipelineRunRef.current;
+        if (!run) return;
+        pipelineRunRef.current = null;
+        run.controller.abort();
+        if (run.charged) refundUsage();
+    }, [refundUsage]);
 
 
     useEffect(() => {
@@ -83,6 +236,60 @@ const App: React.FC = () => {
         }
     }, [playbackRate]);
 
+    const outputPcm = useMemo(() => (outputAudio ? decode(outputAudio) : null), [outputAudio]);
+
+    const wordTimings = useMemo(() => {
+        if (!outputText || !outputPcm) return [];
+        const locale = SUPPORTED_LANGUAGES.find(lang => lang.name === targetLanguage)?.code;
+        return estimateWordTimings(outputText, outputPcm, 24000, locale);
+    }, [outputText, outputPcm, targetLanguage]);
+
+    useEffect(() => {
+        drillRef.current.loop = loopRegion;
+    }, [loopRegion]);
+
+    // Ends a pass through the clip or its loop: starts the next repetition, or stops if none are left.
+    const finishPass = useCallback((audio: HTMLAudioElement) => {
+        const drill = drillRef.current;
+        if (drill.repeatsLeft > 0) {
+            drill.repeatsLeft--;
+            audio.currentTime = drill.loop?.start ?? 0;
+            audio.play().catch(() => setIsPlayingAudio(false));
+            return;
+        }
+        audio.pause();
+        setIsPlayingAudio(false);
+        setIsAudioPaused(false);
+    }, []);
+
+    // Follows the playback position every frame; it is read from the element, so speed changes are followed too.
+    useEffect(() => {
+        if (!isPlayingAudio) {
+            setActiveWord(-1);
+            return;
+        }
+        let frame = 0;
+        const tick = () => {
+            const audio = audioElementRef.current;
+            if (audio) {
+                setActiveWord(wordAt(wordTimings, audio.currentTime));
+                const { loop } = drillRef.current;
+                if (loop && !audio.paused && audio.currentTime >= loop.end) finishPass(audio);
+            }
+            frame = requestAnimationFrame(tick);
+        };
+        tick();
+        return () => cancelAnimationFrame(frame);
+    }, [isPlayingAudio, wordTimings, finishPass]);
+
+    // New audio gets a fresh player: whatever was playing stops and the old loop no longer applies.
+    useEffect(() => {
+        audioElementRef.current?.pause();
+        setIsPlayingAudio(false);
+        setIsAudioPaused(false);
+        setLoopRegion(null);
+    }, [outputAudio]);
+
     useEffect(() => {
         const audio = audioElementRef.current;
         return () => {
@@ -96,85 +303,304 @@ const App: React.FC = () => {
         };
     }, []);
 
-    const handleGenerateAudio = useCallback(async (text: string, language: string, voice: string) => {
-        setLoadingMessage('Generating audio...');
+    /**
+     * Synthesizes speech for the output. Long texts are spoken chunk by chunk (each chunk cached
+     * on its own) and the PCM is stitched into one continuous clip.
+     */
+    const handleGenerateAudio = useCallback(async (text: string, language: string, voice: string, signal?: AbortSignal) => {
+        updateStage('audio', 'pending');
+        setStageProgress(({ audio, ...rest }) => rest);
         setOutputAudio(null);
+        const synthesize = async (chunk: string) => {
+            const cachedAudio = await cache.getAudio(chunk, language, voice);
+            const audio = cachedAudio ?? await provider.textToSpeech(chunk, language, voice, { signal });
+            if (!cachedAudio) cache.putAudio(chunk, language, voice, audio);
+            return audio;
+        };
         try {
-            const audio = await textToSpeech(text, language, voice);
+            const chunks = splitIntoChunks(text, SPEECH_CHUNK_LENGTH);
+            let audio: string;
+            if (chunks.length > 1) {
+                const parts: Uint8Array[] = [];
+                await processInChunks(chunks, async chunk => {
+                    parts.push(decode(await synthesize(chunk.text)));
+                    return '';
+                }, trackProgress('audio'));
+                audio = encode(stitchPcm(parts, 24000));
+            } else {
+                audio = await synthesize(text);
+            }
+            if (signal?.aborted) return;
             setOutputAudio(audio);
+            updateStage('audio', 'done');
         } catch (err) {
-            setError(err instanceof Error ? `Audio generation failed: ${err.message}` : String(err));
-        } finally {
-            setLoadingMessage('');
+            if (isAbortError(err)) {
+                updateStage('audio', 'idle');
+                return;
+            }
+            updateStage('audio', 'error');
+            setError(describeError('Audio generation', err));
         }
-    }, []);
+    }, [provider, cache, updateStage, trackProgress]);
 
-    const handleTranslate = useCallback(async (textToTranslate: string, fromLanguage: string, toLanguage: string, voice: string) => {
+    // Translates the output back into the source language and scores how much meaning survived.
+    const handleVerify = useCallback(async (original: string, translation: string, fromLanguage: string, toLanguage: string, signal?: AbortSignal) => {
+        updateStage('verification', 'pending');
+        setBackTranslation(null);
+        try {
+            const chunks = splitIntoChunks(translation, TRANSLATION_CHUNK_LENGTH);
+            const backTranslated = await translateInChunks(provider, chunks, toLanguage, fromLanguage, { signal }, trackProgress('verification'));
+            if (signal?.aborted) return;
+            setBackTranslation(compareBackTranslation(original, backTranslated));
+            updateStage('verification', 'done');
+        } catch (err) {
+            if (isAbortError(err)) {
+                updateStage('verification', 'idle');
+                return;
+            }
+            updateStage('verification', 'error');
+            setError(describeError('Back-translation', err));
+        }
+    }, [provider, updateStage, trackProgress]);
+
+    /**
+     * Runs the translate → pronounce → speak pipeline for one input.
+     * A cached result skips the model call entirely; audio is still looked up (and cached) per voice.
+     * With AUTO_DETECT_LANGUAGE as the source, the language is detected first and fed into the prompt.
+     * Phonetic schemes with local rules (e.g. Bengali IPA) are never taken from the model.
+     * With `verify`, the result is also back-translated and compared with the input.
+     * Texts longer than one request are translated chunk by chunk, without alternatives.
+     */
+    const handleTranslate = useCallback(async (request: TranslationCacheKey, voice: string, scheme: PhoneticScheme, verify: boolean, charged: boolean, cached?: CachedTranslation) => {
+        const { text: textToTranslate, sourceLanguage: fromLanguage, targetLanguage: toLanguage } = request;
+        cancelPipeline();
         if (!textToTranslate.trim()) {
             setOutputText('');
             setOutputAudio(null);
             setPhoneticText('');
+            setRomanizedText('');
+            setGlossaryViolations([]);
+            setAlternatives([]);
+            setBackTranslation(null);
             return;
         }
+
+        const run: PipelineRun = { id: nextPipelineIdRef.current++, controller: new AbortController(), charged };
+        pipelineRunRef.current = run;
+        const { signal } = run.controller;
+        // Superseded runs keep their promises alive until aborted; they must never write to state.
+        const isCurrent = () => pipelineRunRef.current?.id === run.id;
         
-        setIsLoading(true);
+        const isAutoDetect = fromLanguage === AUTO_DETECT_LANGUAGE;
+        setStageStatus({ ...IDLE_STAGES, detection: isAutoDetect && !cached ? 'pending' : 'idle', translation: 'pending', phonetic: 'pending' });
+        setStageProgress({});
         setError(null);
         setOutputText('');
         setOutputAudio(null);
         setPhoneticText('');
+        setRomanizedText('');
+        setGlossaryViolations([]);
+        setAlternatives([]);
+        setBackTranslation(null);
 
+        // Audio only needs the translated text, so it starts as soon as the translation
+        // is final, while the phonetic guide is still streaming in.
+        let audioPromise: Promise<void> | null = null;
         try {
-            setLoadingMessage('Translating...');
-            const translated = await translateText(textToTranslate, fromLanguage, toLanguage);
-            setOutputText(translated);
+            let detection = cached?.detectedLanguage;
+            if (isAutoDetect && !detection) {
+                const fromRecording = recordingDetectionRef.current;
+                detection = fromRecording?.text === textToTranslate
+                    ? fromRecording.detection
+                    : await provider.detectLanguage(textToTranslate, { signal });
+                if (!isCurrent()) return;
+                updateStage('detection', 'done');
+            }
+            setDetectedLanguage(detection ?? null);
+            const resolvedSourceLanguage = detection?.language ?? fromLanguage;
 
-            setLoadingMessage('Generating pronunciation...');
-            const phonetic = await getPhoneticTranscription(translated, toLanguage);
-            setPhoneticText(phonetic);
+            const chunks = splitIntoChunks(textToTranslate, TRANSLATION_CHUNK_LENGTH);
+            let result: CachedTranslation;
+            if (cached) {
+                result = cached;
+            } else if (chunks.length > 1) {
+                const translation = await translateInChunks(provider, chunks, resolvedSourceLanguage, toLanguage, {
+                    formality: request.formality,
+                    glossary: request.glossary,
+                    onPartial: partial => isCurrent() && setOutputText(partial),
+                    signal,
+                }, trackProgress('translation'));
+                result = { translation, phonetic: '' };
+            } else if (request.withAlternatives) {
+                // The best candidate becomes the output; its pronunciation is generated below.
+                const candidates = await provider.getAlternatives(textToTranslate, resolvedSourceLanguage, toLanguage, {
+                    formality: request.formality,
+                    glossary: request.glossary,
+                    signal,
+                });
+                result = { translation: candidates[0].translation, phonetic: '', alternatives: candidates };
+            } else {
+                const structured = await provider.translateWithPhonetics(textToTranslate, resolvedSourceLanguage, toLanguage, {
+                    formality: request.formality,
+                    glossary: request.glossary,
+                    includeRomanization: true,
+                    phoneticScheme: scheme,
+                    onPartial: partial => isCurrent() && setOutputText(partial),
+                    onTranslation: translation => {
+                        if (!isCurrent()) return;
+                        setOutputText(translation);
+                        updateStage('translation', 'done');
+                        audioPromise = handleGenerateAudio(translation, toLanguage, voice, signal);
+                    },
+                    signal,
+                });
+                result = { ...structured, phoneticScheme: scheme };
+            }
+            if (!isCurrent()) return;
+            audioPromise ??= handleGenerateAudio(result.translation, toLanguage, voice, signal);
+            setAlternatives(result.alternatives ?? []);
+            setActiveAlternative(0);
+            setOutputText(result.translation);
+            setRomanizedText(result.romanization && result.romanization !== result.translation ? result.romanization : '');
+            setGlossaryViolations(checkGlossary(result.translation, request.glossary));
+            updateStage('translation', 'done');
+            setHistory(entries => addHistoryEntry(entries, {
+                text: textToTranslate,
+                translation: result.translation,
+                sourceLanguage: fromLanguage,
+                targetLanguage: toLanguage,
+                formality: request.formality,
+            }));
+            const verifyPromise = verify ? handleVerify(textToTranslate, result.translation, resolvedSourceLanguage, toLanguage, signal) : null;
 
-            await handleGenerateAudio(translated, toLanguage, voice);
+            // A missing guide, or a cached one in another scheme, only needs the pronunciation redone, not the translation.
+            const hasSchemeGuide = !!result.phonetic && (result.phoneticScheme ?? DEFAULT_PHONETIC_SCHEME) === scheme;
+            const phonetic = getLocalPhonetics(result.translation, toLanguage, scheme)
+                ?? (hasSchemeGuide ? result.phonetic : await processInChunks(
+                    splitIntoChunks(result.translation, TRANSLATION_CHUNK_LENGTH),
+                    chunk => provider.getPhoneticTranscription(chunk.text, toLanguage, { scheme, signal }),
+                    trackProgress('phonetic'),
+                ));
+            if (!isCurrent()) return;
+            if (!cached || !hasSchemeGuide) {
+                cache.putTranslation(request, { ...result, phonetic, phoneticScheme: scheme, detectedLanguage: detection });
+            }
+            setPhoneticText(phonetic);
+            updateStage('phonetic', 'done');
 
+            await Promise.all([audioPromise, verifyPromise]);
         } catch (err) {
-            setError(err instanceof Error ? `Translation failed: ${err.message}` : String(err));
+            if (!isCurrent() || isAbortError(err)) return;
+            setStageStatus(current => ({
+                ...current,
+                detection: current.detection === 'pending' ? 'error' : current.detection,
+                translation: current.translation === 'pending' ? 'error' : current.translation,
+                phonetic: 'error',
+            }));
+            setError(describeError('Translation', err));
         } finally {
-            setIsLoading(false);
-            setLoadingMessage('');
+            if (isCurrent()) pipelineRunRef.current = null;
         }
-    }, [handleGenerateAudio]);
+    }, [provider, cache, handleGenerateAudio, handleVerify, cancelPipeline, updateStage, trackProgress]);
     
     useEffect(() => {
-        if (isRecording) return;
+        if (isRecording || isTranscribing) return;
         
-        const handler = setTimeout(() => {
+        let isStale = false;
+        const handler = setTimeout(async () => {
             if (inputText.trim()) {
-                handleCoreAction(() => handleTranslate(inputText, sourceLanguage, targetLanguage, selectedVoice));
+                // Cache hits are free: they skip the model and don't count against the plan's limit.
+                const request: TranslationCacheKey = { text: inputText, sourceLanguage, targetLanguage, formality, glossary: glossaryTerms, withAlternatives: isAlternativesMode };
+                const cached = await cache.getTranslation(request);
+                if (isStale) return;
+                if (cached) {
+                    handleTranslate(request, selectedVoice, activePhoneticScheme, isVerifyMode, false, cached);
+                } else {
+                    handleCoreAction(charged => handleTranslate(request, selectedVoice, activePhoneticScheme, isVerifyMode, charged));
+                }
             } else {
+                 cancelPipeline();
+                 setStageStatus(IDLE_STAGES);
+                 setDetectedLanguage(null);
                  setOutputText('');
                  setOutputAudio(null);
                  setPhoneticText('');
+                 setRomanizedText('');
+                 setGlossaryViolations([]);
+                 setAlternatives([]);
+                 setBackTranslation(null);
             }
         }, 1000);
 
         return () => {
+            isStale = true;
             clearTimeout(handler);
         };
-    }, [inputText, sourceLanguage, targetLanguage, selectedVoice, handleTranslate, isRecording, handleCoreAction]);
+    }, [inputText, sourceLanguage, targetLanguage, formality, glossaryTerms, isAlternativesMode, isVerifyMode, selectedVoice, activePhoneticScheme, handleTranslate, isRecording, isTranscribing, handleCoreAction, cancelPipeline, cache]);
+
+    /**
+     * Makes another candidate the active output, then regenerates its pronunciation and audio.
+     * This reuses the pipeline run machinery so a newer translation cancels it.
+     */
+    const handleSelectAlternative = useCallback(async (index: number) => {
+        const alternative = alternatives[index];
+        if (!alternative || index === activeAlternative) return;
+
+        cancelPipeline();
+        const run: PipelineRun = { id: nextPipelineIdRef.current++, controller: new AbortController(), charged: false };
+        pipelineRunRef.current = run;
+        const { signal } = run.controller;
+        const isCurrent = () => pipelineRunRef.current?.id === run.id;
+
+        setActiveAlternative(index);
+        setOutputText(alternative.translation);
+        setPhoneticText('');
+        setGlossaryViolations(checkGlossary(alternative.translation, glossaryTerms));
+        setError(null);
+        updateStage('phonetic', 'pending');
+        const audioPromise = handleGenerateAudio(alternative.translation, targetLanguage, selectedVoice, signal);
+        const verifyPromise = isVerifyMode
+            ? handleVerify(inputText, alternative.translation, detectedLanguage?.language ?? sourceLanguage, targetLanguage, signal)
+            : null;
+        try {
+            const phonetic = getLocalPhonetics(alternative.translation, targetLanguage, activePhoneticScheme)
+                ?? await provider.getPhoneticTranscription(alternative.translation, targetLanguage, { scheme: activePhoneticScheme, signal });
+            if (!isCurrent()) return;
+            setPhoneticText(phonetic);
+            updateStage('phonetic', 'done');
+            await Promise.all([audioPromise, verifyPromise]);
+        } catch (err) {
+            if (!isCurrent() || isAbortError(err)) return;
+            updateStage('phonetic', 'error');
+            setError(describeError('Pronunciation', err));
+        } finally {
+            if (isCurrent()) pipelineRunRef.current = null;
+        }
+    }, [alternatives, activeAlternative, glossaryTerms, inputText, sourceLanguage, detectedLanguage, targetLanguage, selectedVoice, activePhoneticScheme, isVerifyMode, provider, cancelPipeline, handleGenerateAudio, handleVerify, updateStage]);
+
+    // Abort whatever is still running when the app unmounts.
+    useEffect(() => () => cancelPipeline(), [cancelPipeline]);
 
     // Re-generate audio if the voice is changed
     useEffect(() => {
         if (outputText && outputAudio && (subscriptionPlan !== 'FREE' || !SUPPORTED_VOICES.find(v => v.code === selectedVoice)?.premium)) {
-             handleGenerateAudio(outputText, targetLanguage, selectedVoice);
+             const controller = new AbortController();
+             handleGenerateAudio(outputText, targetLanguage, selectedVoice, controller.signal);
+             return () => controller.abort();
         }
     }, [selectedVoice, targetLanguage, outputText, handleGenerateAudio, subscriptionPlan]);
 
 
-    const drawVisualizer = useCallback(() => {
-        if (!audioVisualizerRef.current || !canvasRef.current) return;
-
-        const canvas = canvasRef.current;
-        const canvasCtx = canvas.getContext('2d');
-        if (!canvasCtx) return;
+    /**
+     * Runs voice activity detection on every animation frame while recording and draws the waveform,
+     * with a level meter marking the speech threshold and the time left before an automatic stop.
+     * @param settings The silence that ends the recording and its length limit.
+     * @param onAutoStop Called once when the detector ends the recording.
+     */
+    const drawVisualizer = useCallback((settings: VoiceActivitySettings, onAutoStop: () => void) => {
+        if (!audioVisualizerRef.current) return;
 
+        const detector = createVoiceActivityDetector(settings);
         const analyser = audioVisualizerRef.current;
         const bufferLength = analyser.frequencyBinCount;
         const dataArray = new Uint8Array(bufferLength);
@@ -182,6 +608,17 @@ const App: React.FC = () => {
         const draw = () => {
             visualizerAnimationRef.current = requestAnimationFrame(draw);
             analyser.getByteTimeDomainData(dataArray);
+            const activity = detector.update(dataArray, performance.now());
+            if (activity.stopReason) {
+                cancelAnimationFrame(visualizerAnimationRef.current);
+                onAutoStop();
+                return;
+            }
+
+            // The canvas only mounts once the recording state has rendered.
+            const canvas = canvasRef.current;
+            const canvasCtx = canvas?.getContext('2d');
+            if (!canvas || !canvasCtx) return;
 
             const isDarkMode = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
             canvasCtx.fillStyle = isDarkMode ? '#374151' : '#FDFBF7'; // paper-dark or paper-light
@@ -206,6 +643,23 @@ const App: React.FC = () => {
             }
             canvasCtx.lineTo(canvas.width, canvas.height / 2);
             canvasCtx.stroke();
+
+            // Level meter on the left edge: green while speech is heard, with a tick at the speech threshold.
+            const meterWidth = 8;
+            const meterHeight = levelToMeter(activity.level) * canvas.height;
+            canvasCtx.fillStyle = activity.isSpeech ? 'rgb(34 197 94)' : 'rgb(156 163 175)'; // green-500 or gray-400
+            canvasCtx.fillRect(0, canvas.height - meterHeight, meterWidth, meterHeight);
+            const thresholdY = canvas.height * (1 - levelToMeter(activity.threshold));
+            canvasCtx.fillStyle = 'rgb(239 68 68)'; // red-500
+            canvasCtx.fillRect(0, thresholdY - 1, meterWidth * 2, 2);
+
+            const remaining = settings.silenceMs > 0 && activity.hasSpeech && activity.silenceMs > 500
+                ? ` · stops in ${((settings.silenceMs - activity.silenceMs) / 1000).toFixed(1)} s`
+                : '';
+            canvasCtx.font = '12px sans-serif';
+            canvasCtx.textAlign = 'right';
+            canvasCtx.fillStyle = isDarkMode ? '#D1D5DB' : '#4B5563'; // gray-300 or gray-600
+            canvasCtx.fillText(`${formatClock(activity.elapsedMs)} / ${formatClock(settings.maxMs)}${remaining}`, canvas.width - 4, 14);
         };
         draw();
     }, []);
@@ -225,8 +679,10 @@ const App: React.FC = () => {
             setIsRecording(true);
             setError(null);
             setInputText('');
+            setTranscript(null);
+            fileTranscriptionRef.current?.abort();
 
-            drawVisualizer();
+            drawVisualizer({ silenceMs: autoStopSilenceMs, maxMs: MAX_RECORDING_SECONDS * 1000 }, handleStopRecording);
 
             const mediaRecorder = new MediaRecorder(stream);
             mediaRecorderRef.current = mediaRecorder;
@@ -237,50 +693,148 @@ const App: React.FC = () => {
             };
 
             mediaRecorder.onstop = async () => {
+                liveTranscriberRef.current?.stop();
+                liveTranscriberRef.current = null;
                 stream.getTracks().forEach(track => track.stop());
                 if (visualizerAnimationRef.current) cancelAnimationFrame(visualizerAnimationRef.current);
                 audioVisualizerRef.current = null;
                 audioContext.close();
 
-                const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/webm' });
-                if (audioBlob.size === 0) return;
+                const recording = new Blob(audioChunksRef.current, { type: 'audio/webm' });
+                if (recording.size === 0) return;
 
-                setLoadingMessage('Transcribing...');
-                setIsLoading(true);
+                // The live preview stays in the input until the full recording is transcribed.
+                updateStage('transcription', 'pending');
                 try {
-                    const transcribedText = await transcribeAudio(audioBlob, sourceLanguage);
+                    // Silence at either end only costs tokens and invites made-up text, so it is cut off first.
+                    const audioBlob = await trimSilence(recording);
+                    if (!audioBlob) throw new Error('No speech was detected in the recording.');
+
+                    let spokenLanguage = sourceLanguage;
+                    let detection: DetectedLanguage | null = null;
+                    if (sourceLanguage === AUTO_DETECT_LANGUAGE) {
+                        updateStage('detection', 'pending');
+                        detection = await provider.detectLanguage(audioBlob);
+                        setDetectedLanguage(detection);
+                        updateStage('detection', 'done');
+                        spokenLanguage = detection.language;
+                    }
+
+                    let transcribedText: string;
+                    if (isSpeakerMode) {
+                        const turns = await provider.transcribeWithSpeakers(audioBlob, spokenLanguage);
+                        setTranscript(turns);
+                        transcribedText = formatSpeakerTranscript(turns);
+                    } else {
+                        transcribedText = await provider.transcribeAudio(audioBlob, spokenLanguage);
+                    }
+                    recordingDetectionRef.current = detection && { text: transcribedText, detection };
                     setInputText(transcribedText);
+                    updateStage('transcription', 'done');
                 } catch (err) {
-                    setError(err instanceof Error ? `Transcription failed: ${err.message}` : String(err));
+                    setStageStatus(current => ({
+                        ...current,
+                        detection: current.detection === 'pending' ? 'error' : current.detection,
+                        transcription: 'error',
+                    }));
+                    setError(describeError('Transcription', err));
                     setOutputText('');
                     setOutputAudio(null);
-                } finally {
-                    setIsLoading(false);
-                    setLoadingMessage('');
                 }
             };
 
             mediaRecorder.start();
+            liveTranscriberRef.current = createLiveTranscriber({
+                provider,
+                stream,
+                language: sourceLanguage === AUTO_DETECT_LANGUAGE ? null : sourceLanguage,
+                onPartial: setInputText,
+            });
         } catch (err) {
             setError(err instanceof Error ? `Microphone access denied: ${err.message}` : String(err));
             setIsRecording(false);
         }
     };
 
+    /**
+     * Transcribes an uploaded recording: it is decoded locally, split at pauses, and each segment is
+     * transcribed on its own. The timestamped transcript becomes the input, which starts a translation.
+     */
+    const handleTranscribeFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        fileTranscriptionRef.current?.abort();
+        const controller = new AbortController();
+        fileTranscriptionRef.current = controller;
+        const { signal } = controller;
+
+        setError(null);
+        setInputText('');
+        setTranscript(null);
+        setStageProgress({});
+        updateStage('transcription', 'pending');
+        try {
+            const audio = await decodeAudioFile(file);
+            const segments = findSpeechSegments(audio);
+            if (segments.length === 0) throw new Error('No speech was found in the recording.');
+
+            let spokenLanguage = sourceLanguage;
+            let detection: DetectedLanguage | null = null;
+            if (sourceLanguage === AUTO_DETECT_LANGUAGE) {
+                updateStage('detection', 'pending');
+                detection = await provider.detectLanguage(segmentToWav(audio, segments[0]), { signal });
+                setDetectedLanguage(detection);
+                updateStage('detection', 'done');
+                spokenLanguage = detection.language;
+            }
+
+            let text: string;
+            if (isSpeakerMode) {
+                const turns = await transcribeSegmentsWithSpeakers(provider, audio, segments, spokenLanguage, { signal }, trackProgress('transcription'));
+                if (signal.aborted) return;
+                setTranscript(turns);
+                text = formatSpeakerTranscript(turns);
+            } else {
+                text = formatTranscript(await transcribeSegments(provider, audio, segments, spokenLanguage, { signal }, trackProgress('transcription')));
+                if (signal.aborted) return;
+            }
+            recordingDetectionRef.current = detection && { text, detection };
+            setInputText(text);
+            updateStage('transcription', 'done');
+        } catch (err) {
+            if (signal.aborted || isAbortError(err)) return;
+            setStageStatus(current => ({
+                ...current,
+                detection: current.detection === 'pending' ? 'error' : current.detection,
+                transcription: 'error',
+            }));
+            setError(describeError(`Transcription of ${file.name}`, err));
+            setOutputText('');
+            setOutputAudio(null);
+        } finally {
+            if (fileTranscriptionRef.current === controller) fileTranscriptionRef.current = null;
+        }
+    };
+
+    // Reads the recorder's own state, so the visualizer loop can stop a recording it started with.
     const handleStopRecording = () => {
-        if (mediaRecorderRef.current && isRecording) {
+        if (mediaRecorderRef.current?.state === 'recording') {
+            liveTranscriberRef.current?.stop();
+            liveTranscriberRef.current = null;
             mediaRecorderRef.current.stop();
             setIsRecording(false);
         }
     };
 
-    const handlePlayAudio = async () => {
-        if (!outputAudio || isPlayingAudio) return;
+    const handlePlayAudio = async (startAt = loopRegion?.start ?? 0) => {
+        if (!outputPcm || isPlayingAudio) return;
         try {
             setIsPlayingAudio(true);
+            setIsAudioPaused(false);
+            drillRef.current.repeatsLeft = repeatCount - 1;
     
-            const audioData = decode(outputAudio);
-            const wavBlob = pcmToWavBlob(audioData, 24000, 1, 16);
+            const wavBlob = pcmToWavBlob(outputPcm, 24000, 1, 16);
     
             if (currentAudioUrlRef.current) {
                 URL.revokeObjectURL(currentAudioUrlRef.current);
@@ -295,12 +849,11 @@ const App: React.FC = () => {
             const audio = audioElementRef.current;
             
             audio.src = audioUrl;
+            audio.currentTime = startAt;
             audio.preservesPitch = true;
             audio.playbackRate = playbackRate;
     
-            audio.onended = () => {
-                setIsPlayingAudio(false);
-            };
+            audio.onended = () => finishPass(audio);
             audio.onerror = (e) => {
                 setError('An error occurred during audio playback.');
                 console.error('Audio playback error:', e);
@@ -315,33 +868,104 @@ const App: React.FC = () => {
         }
     };
 
+    const handlePauseAudio = () => {
+        audioElementRef.current?.pause();
+        setIsAudioPaused(true);
+    };
+
+    const handleResumeAudio = async () => {
+        const audio = audioElementRef.current;
+        if (!audio) return;
+        try {
+            await audio.play();
+            setIsAudioPaused(false);
+        } catch (err) {
+            setError(err instanceof Error ? `Failed to play audio: ${err.message}` : String(err));
+        }
+    };
+
+    const handleStopAudio = () => {
+        audioElementRef.current?.pause();
+        setIsPlayingAudio(false);
+        setIsAudioPaused(false);
+    };
+
+    // Plays from a position, or jumps there if playback is already under way (playing or paused).
+    const handleSeekAudio = (time: number) => {
+        const audio = audioElementRef.current;
+        if (isPlayingAudio && audio) {
+            audio.currentTime = time;
+        } else {
+            handlePlayAudio(time);
+        }
+    };
+
+    // A new loop takes effect at once: playback outside it jumps to its start.
+    const handleLoopChange = (loop: LoopRegion | null) => {
+        setLoopRegion(loop);
+        const audio = audioElementRef.current;
+        if (loop && isPlayingAudio && audio && (audio.currentTime < loop.start || audio.currentTime > loop.end)) {
+            audio.currentTime = loop.start;
+        }
+    };
+
+    const handleRepeatCountChange = (count: number) => {
+        // Passes already played count towards the new total.
+        drillRef.current.repeatsLeft = Math.max(0, drillRef.current.repeatsLeft + count - repeatCount);
+        setRepeatCount(count);
+    };
+
+    // Puts a past translation's text, languages and register back; the debounced effect then serves it from the cache.
+    const handleRestoreHistory = (entry: HistoryEntry) => {
+        setSourceLanguage(entry.sourceLanguage);
+        setTargetLanguage(entry.targetLanguage);
+        setFormality(entry.formality);
+        setInputText(entry.text);
+        setIsHistoryOpen(false);
+    };
+
     const handleDownloadAudio = () => {
         if (subscriptionPlan === 'FREE') {
             setError('Please upgrade to the Premium or Pro plan to download audio.');
             setIsPaymentModalOpen(true);
             return;
         }
-        handleCoreAction(() => {
-            if (!outputAudio) return;
+        if (!outputAudio || isExportingAudio) return;
+        handleCoreAction(async (charged) => {
+            const format = AUDIO_EXPORT_FORMATS.find(f => f.id === audioExportFormat) ?? AUDIO_EXPORT_FORMATS[0];
+            const languageCode = (name: string) => SUPPORTED_LANGUAGES.find(lang => lang.name === name)?.code ?? name;
+            const source = languageCode(sourceLanguage === AUTO_DETECT_LANGUAGE ? detectedLanguage?.language ?? 'auto' : sourceLanguage);
+            const target = languageCode(targetLanguage);
+            setIsExportingAudio(true);
             try {
-                const audioData = decode(outputAudio);
-                const wavBlob = pcmToWavBlob(audioData, 24000, 1, 16);
-                
-                const url = URL.createObjectURL(wavBlob);
+                const blob = await encodeSpeech(decode(outputAudio), {
+                    format: format.id,
+                    sampleRate: audioExportSampleRate,
+                    info: {
+                        INAM: outputText,
+                        ISBJ: inputText,
+                        ICMT: `${source} → ${target}`,
+                        ICRD: new Date().toISOString().slice(0, 10),
+                        ISFT: 'Global Language Bridge',
+                    },
+                });
+
+                const url = URL.createObjectURL(blob);
                 const a = document.createElement('a');
                 a.style.display = 'none';
                 a.href = url;
-                
-                const safeTargetLanguage = targetLanguage.replace(/[^a-z0-9]/gi, '_').toLowerCase();
-                a.download = `translation_${safeTargetLanguage}.wav`;
-                
+                a.download = `${formatFileName(audioFileNameTemplate, { text: outputText, source, target })}.${format.extension}`;
+
                 document.body.appendChild(a);
                 a.click();
-                
+
                 window.URL.revokeObjectURL(url);
                 document.body.removeChild(a);
             } catch (err) {
+                if (charged) refundUsage();
                 setError(err instanceof Error ? `Failed to prepare audio for download: ${err.message}` : String(err));
+            } finally {
+                setIsExportingAudio(false);
             }
         });
     };
@@ -353,10 +977,25 @@ const App: React.FC = () => {
         setTimeout(() => setIsCopied(false), 2000);
     };
     
+    // Renaming a speaker also renames them in the input, unless the transcript was edited there.
+    const handleTranscriptChange = (turns: SpeakerTurn[]) => {
+        if (transcript && inputText === formatSpeakerTranscript(transcript)) setInputText(formatSpeakerTranscript(turns));
+        setTranscript(turns);
+    };
+
     const handleClearInput = () => {
+        cancelPipeline();
+        fileTranscriptionRef.current?.abort();
+        setTranscript(null);
+        setStageStatus(IDLE_STAGES);
+        setDetectedLanguage(null);
         setInputText('');
         setOutputText('');
         setPhoneticText('');
+        setRomanizedText('');
+        setGlossaryViolations([]);
+        setAlternatives([]);
+        setBackTranslation(null);
         setOutputAudio(null);
         setError(null);
     };
@@ -425,22 +1064,109 @@ const App: React.FC = () => {
                             <select
                                 id="source-language-select"
                                 value={sourceLanguage}
-                                onChange={(e) => setSourceLanguage(e.target.value)}
+                                onChange={(e) => {
+                                    setSourceLanguage(e.target.value);
+                                    setDetectedLanguage(null);
+                                }}
                                 className="bg-transparent border border-black/20 dark:border-white/20 text-sm rounded-lg focus:ring-amber-700 focus:border-amber-700 block w-full p-2 disabled:opacity-50"
                                 disabled={isRecording || isPlayingAudio}
                             >
+                                <option className="bg-paper-light dark:bg-paper-dark" value={AUTO_DETECT_LANGUAGE}>Detect language</option>
                                 {SUPPORTED_LANGUAGES.map(lang => (
                                     <option className="bg-paper-light dark:bg-paper-dark" key={lang.code} value={lang.name}>{lang.name}</option>
                                 ))}
                             </select>
+                            {sourceLanguage === AUTO_DETECT_LANGUAGE && detectedLanguage && (
+                                <span className="text-sm whitespace-nowrap text-gray-500 dark:text-gray-400" title="Detection confidence">
+                                    {detectedLanguage.language} · {Math.round(detectedLanguage.confidence * 100)}%
+                                </span>
+                            )}
+                            {sourceLanguage === 'Bengali' && (
+                                <button
+                                    onClick={() => setIsPhoneticTyping(prev => !prev)}
+                                    className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${isPhoneticTyping ? 'bg-amber-700 border-amber-700 text-white' : 'border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10'}`}
+                                    aria-pressed={isPhoneticTyping}
+                                    title="Phonetic typing: type Bengali with English letters (e.g. ami → আমি)"
+                                >
+                                    অ
+                                </button>
+                            )}
+                            <button
+                                onClick={() => setIsSubtitlesOpen(true)}
+                                className="px-3 py-1.5 rounded-lg text-sm font-medium border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 transition-colors whitespace-nowrap"
+                                title="Translate an SRT or WebVTT subtitle file"
+                            >
+                                Subtitles
+                            </button>
+                            <button
+                                onClick={() => setIsLocalizationOpen(true)}
+                                className="px-3 py-1.5 rounded-lg text-sm font-medium border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 transition-colors whitespace-nowrap"
+                                title="Translate an i18n JSON file or a gettext PO catalog"
+                            >
+                                i18n
+                            </button>
+                            <button
+                                onClick={() => setIsConversationOpen(true)}
+                                className="px-3 py-1.5 rounded-lg text-sm font-medium border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 transition-colors whitespace-nowrap"
+                                title="Conversation mode: interpret a hands-free conversation between two people"
+                                disabled={isRecording}
+                            >
+                                Conversation
+                            </button>
+                            {transcript && (
+                                <button
+                                    onClick={() => setIsTranscriptOpen(true)}
+                                    className="px-3 py-1.5 rounded-lg text-sm font-medium border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 transition-colors whitespace-nowrap"
+                                    title="Rename speakers and export the transcript as SRT, VTT or JSON"
+                                >
+                                    Transcript
+                                </button>
+                            )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <select
+                                value={autoStopSilenceMs}
+                                onChange={(e) => setAutoStopSilenceMs(Number(e.target.value))}
+                                className="p-1.5 text-sm bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-lg"
+                                aria-label="Stop recording after this much silence"
+                                title={`Stop recording after this much silence (recordings stop at ${MAX_RECORDING_SECONDS / 60} minutes regardless)`}
+                                disabled={isRecording}
+                            >
+                                {AUTO_STOP_OPTIONS.map(({ silenceMs, label }) => <option key={silenceMs} value={silenceMs}>Auto-stop: {label}</option>)}
+                            </select>
+                            <button
+                                onClick={() => setIsSpeakerMode(prev => !prev)}
+                                className={`px-3 py-1.5 rounded-lg text-sm font-medium border transition-colors ${isSpeakerMode ? 'bg-amber-700 border-amber-700 text-white' : 'border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10'}`}
+                                aria-pressed={isSpeakerMode}
+                                title="Speakers: transcribe with timestamps and speaker labels"
+                                disabled={isRecording}
+                            >
+                                Speakers
+                            </button>
+                            <button
+                                onClick={() => audioFileInputRef.current?.click()}
+                                className="p-3 rounded-full transition-colors bg-black/10 hover:bg-black/20 dark:bg-white/10 dark:hover:bg-white/20 disabled:opacity-50"
+                                aria-label="Transcribe an audio file"
+                                title="Transcribe an audio file (mp3, m4a, ogg, wav)"
+                                disabled={isRecording}
+                            >
+                                <UploadIcon className="h-6 w-6" />
+                            </button>
+                            <input
+                                ref={audioFileInputRef}
+                                type="file"
+                                accept="audio/*,.mp3,.m4a,.aac,.ogg,.oga,.opus,.wav,.webm,.flac"
+                                className="hidden"
+                                onChange={handleTranscribeFile}
+                            />
+                            <button
+                                onClick={isRecording ? handleStopRecording : handleStartRecording}
+                                className={`p-3 rounded-full transition-all duration-300 ease-in-out ${isRecording ? 'bg-red-500 hover:bg-red-600 text-white animate-pulse' : 'bg-black/10 hover:bg-black/20 dark:bg-white/10 dark:hover:bg-white/20'}`}
+                                aria-label={isRecording ? 'Stop recording' : 'Start recording'}
+                            >
+                                {isRecording ? <StopIcon className="h-6 w-6" /> : <MicrophoneIcon className="h-6 w-6" />}
+                            </button>
                         </div>
-                        <button
-                            onClick={isRecording ? handleStopRecording : handleStartRecording}
-                            className={`p-3 rounded-full transition-all duration-300 ease-in-out ${isRecording ? 'bg-red-500 hover:bg-red-600 text-white animate-pulse' : 'bg-black/10 hover:bg-black/20 dark:bg-white/10 dark:hover:bg-white/20'}`}
-                            aria-label={isRecording ? 'Stop recording' : 'Start recording'}
-                        >
-                            {isRecording ? <StopIcon className="h-6 w-6" /> : <MicrophoneIcon className="h-6 w-6" />}
-                        </button>
                     </div>
                     <div className="p-4 sm:p-6 flex-grow relative">
                         {inputText && !isRecording && (
@@ -448,14 +1174,15 @@ const App: React.FC = () => {
                                  <ClearIcon className="h-5 w-5"/>
                              </button>
                         )}
-                         <textarea
+                         <PhoneticTextarea
                             value={inputText}
-                            onChange={(e) => setInputText(e.target.value)}
-                            placeholder="Type or record audio..."
+                            onChange={setInputText}
+                            phoneticEnabled={isPhoneticTyping && sourceLanguage === 'Bengali'}
+                            placeholder={isRecording ? 'Listening...' : 'Type or record audio...'}
                             className="w-full h-full min-h-[200px] bg-transparent border-none focus:ring-0 resize-none text-lg p-2 rounded-md"
                             disabled={isRecording}
                         />
-                        {isRecording && <canvas ref={canvasRef} className="w-full h-full absolute inset-0 opacity-80" width="500" height="200"></canvas>}
+                        {isRecording && <canvas ref={canvasRef} className="w-full h-16 absolute inset-x-0 bottom-0 opacity-80 pointer-events-none" width="500" height="64"></canvas>}
                     </div>
                 </div>
 
@@ -480,6 +1207,50 @@ const App: React.FC = () => {
                                    ))}
                                </select>
                              </div>
+                             <div className="flex items-center gap-2">
+                                <label htmlFor="formality-select" className="text-sm font-medium shrink-0">Tone:</label>
+                                <select
+                                    id="formality-select"
+                                    value={formality}
+                                    onChange={(e) => setFormality(e.target.value as Formality)}
+                                    className="bg-transparent border border-black/20 dark:border-white/20 text-sm rounded-lg focus:ring-amber-700 focus:border-amber-700 block w-full p-2 disabled:opacity-50"
+                                    disabled={isPlayingAudio || isRecording}
+                                >
+                                    {FORMALITY_LEVELS.map(level => (
+                                        <option className="bg-paper-light dark:bg-paper-dark" key={level.id} value={level.id} title={level.description}>
+                                            {level.name}{PRONOUN_HINTS[targetLanguage] ? ` (${PRONOUN_HINTS[targetLanguage][level.id]})` : ''}
+                                        </option>
+                                    ))}
+                                </select>
+                             </div>
+                             <button
+                                onClick={() => setIsAlternativesMode(prev => !prev)}
+                                className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${isAlternativesMode ? 'bg-amber-700 border-amber-700 text-white' : 'border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10'}`}
+                                aria-pressed={isAlternativesMode}
+                                title="Show 2–4 candidate translations with notes on meaning and register"
+                             >
+                                Alternatives
+                             </button>
+                             <button
+                                onClick={() => setIsVerifyMode(prev => !prev)}
+                                className={`px-3 py-2 text-sm font-medium rounded-lg border transition-colors ${isVerifyMode ? 'bg-amber-700 border-amber-700 text-white' : 'border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10'}`}
+                                aria-pressed={isVerifyMode}
+                                title="Back-translate the result into the source language and score how much meaning survived"
+                             >
+                                Verify
+                             </button>
+                             <button
+                                onClick={() => setIsGlossaryOpen(true)}
+                                className="px-3 py-2 text-sm font-medium rounded-lg border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 transition-colors"
+                             >
+                                Glossary{glossary.entries.length + glossary.doNotTranslate.length > 0 && ` (${glossary.entries.length + glossary.doNotTranslate.length})`}
+                             </button>
+                             <button
+                                onClick={() => setIsHistoryOpen(true)}
+                                className="px-3 py-2 text-sm font-medium rounded-lg border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 transition-colors"
+                             >
+                                History
+                             </button>
                              <div className="flex items-center gap-2">
                                 <label htmlFor="voice-select" className="text-sm font-medium shrink-0">Voice:</label>
                                 <select
@@ -501,9 +1272,39 @@ const App: React.FC = () => {
                              </div>
                         </div>
                          <div className="flex flex-wrap justify-end items-center gap-x-4 gap-y-2">
-                            <button onClick={handleDownloadAudio} disabled={!outputAudio || isLoading || isPlayingAudio} className="p-3 rounded-full bg-black/10 hover:bg-black/20 dark:bg-white/10 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors" aria-label="Download translation audio">
-                                <DownloadIcon className="h-6 w-6" />
-                            </button>
+                            <div className="flex items-center gap-2">
+                                <select
+                                    value={audioExportFormat}
+                                    onChange={(e) => setAudioExportFormat(e.target.value as AudioExportFormat)}
+                                    className="p-1.5 text-sm bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-lg"
+                                    aria-label="Audio download format"
+                                    title={audioExportFormat === 'webm' ? 'Opus is encoded by playing the audio through the browser, which takes as long as the audio itself' : 'Audio download format'}
+                                    disabled={isExportingAudio}
+                                >
+                                    {AUDIO_EXPORT_FORMATS.map(format => <option key={format.id} value={format.id}>{format.name}</option>)}
+                                </select>
+                                <select
+                                    value={audioExportSampleRate}
+                                    onChange={(e) => setAudioExportSampleRate(Number(e.target.value))}
+                                    className="p-1.5 text-sm bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-lg"
+                                    aria-label="Audio download sample rate"
+                                    disabled={isExportingAudio}
+                                >
+                                    {EXPORT_SAMPLE_RATES.map(rate => <option key={rate} value={rate}>{rate / 1000} kHz</option>)}
+                                </select>
+                                <input
+                                    type="text"
+                                    value={audioFileNameTemplate}
+                                    onChange={(e) => setAudioFileNameTemplate(e.target.value)}
+                                    className="w-44 p-1.5 text-sm bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-lg"
+                                    aria-label="Audio filename template"
+                                    title="Filename template: {text}, {source}, {target}, {date} and {time} are filled in"
+                                    disabled={isExportingAudio}
+                                />
+                                <button onClick={handleDownloadAudio} disabled={!outputAudio || isLoading || isPlayingAudio || isExportingAudio} className={`p-3 rounded-full bg-black/10 hover:bg-black/20 dark:bg-white/10 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${isExportingAudio ? 'animate-pulse' : ''}`} aria-label="Download translation audio">
+                                    <DownloadIcon className="h-6 w-6" />
+                                </button>
+                            </div>
                             <div className="flex items-center gap-2">
                                 <span className={`text-sm text-green-600 dark:text-green-400 transition-opacity duration-300 ${isCopied ? 'opacity-100' : 'opacity-0'}`}>Copied!</span>
                                 <button onClick={handleCopy} disabled={!outputText || isLoading || isPlayingAudio} className="p-3 rounded-full bg-black/10 hover:bg-black/20 dark:bg-white/10 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors" aria-label="Copy translation">
@@ -514,8 +1315,15 @@ const App: React.FC = () => {
                     </div>
                     <div className="p-4 sm:p-6 flex-grow relative overflow-y-auto">
                         <div className="absolute top-4 right-4 flex items-center gap-2">
-                            <button onClick={handlePlayAudio} disabled={!outputAudio || isLoading || isPlayingAudio} className="p-3 rounded-full bg-black/10 hover:bg-black/20 dark:bg-white/10 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors" aria-label="Play translation audio">
-                                <SpeakerIcon className={`h-6 w-6 transition-colors ${isPlayingAudio ? 'text-amber-700 dark:text-amber-500' : ''}`} />
+                            <button
+                                onClick={() => (!isPlayingAudio ? handlePlayAudio() : isAudioPaused ? handleResumeAudio() : handlePauseAudio())}
+                                disabled={!outputAudio || isLoading}
+                                className="p-3 rounded-full bg-black/10 hover:bg-black/20 dark:bg-white/10 dark:hover:bg-white/20 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                                aria-label={!isPlayingAudio ? 'Play translation audio' : isAudioPaused ? 'Resume translation audio' : 'Pause translation audio'}
+                            >
+                                {isPlayingAudio && !isAudioPaused
+                                    ? <PauseIcon className="h-6 w-6 text-amber-700 dark:text-amber-500" />
+                                    : <SpeakerIcon className={`h-6 w-6 transition-colors ${isPlayingAudio ? 'text-amber-700 dark:text-amber-500' : ''}`} />}
                             </button>
                             <div className="flex items-center gap-1">
                                 <label htmlFor="playback-speed" className="sr-only">Playback Speed</label>
@@ -528,14 +1336,14 @@ const App: React.FC = () => {
                                     value={playbackRate}
                                     onChange={(e) => setPlaybackRate(parseFloat(e.target.value))}
                                     className="w-24 h-2 bg-gray-300 dark:bg-gray-600 rounded-lg appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
-                                    disabled={!outputAudio || isLoading || isPlayingAudio}
+                                    disabled={!outputAudio || isLoading}
                                     aria-label="Playback speed control"
                                 />
                                 <span className="text-sm font-mono w-10 text-center">{playbackRate.toFixed(1)}x</span>
                             </div>
                         </div>
 
-                        {isLoading && (
+                        {isLoading && !outputText && (
                             <div className="absolute inset-0 bg-paper-light/80 dark:bg-paper-dark/80 flex flex-col items-center justify-center rounded-b-2xl z-10">
                                 <div className="w-12 h-12 border-4 border-amber-700 border-t-transparent rounded-full animate-spin"></div>
                                 <p className="mt-4 text-lg font-medium">{loadingMessage}</p>
@@ -544,11 +1352,112 @@ const App: React.FC = () => {
                         <div className="w-full min-h-[200px] text-lg p-2 whitespace-pre-wrap space-y-4 pt-16">
                             {outputText ? (
                                 <>
-                                    <p>{outputText}</p>
+                                    {backTranslation && backTranslation.confidence < LOW_CONFIDENCE_THRESHOLD && (
+                                        <div className="text-sm p-3 rounded-md bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200 border-l-4 border-red-500" role="alert">
+                                            <p className="font-semibold">Low confidence ({Math.round(backTranslation.confidence * 100)}%)</p>
+                                            <p>The back-translation differs noticeably from the original. Have a fluent speaker check the highlighted sentences.</p>
+                                        </div>
+                                    )}
+                                    {outputPcm && (
+                                        <WaveformPlayer
+                                            pcm={outputPcm}
+                                            sampleRate={24000}
+                                            audioRef={audioElementRef}
+                                            isPlaying={isPlayingAudio}
+                                            loop={loopRegion}
+                                            onLoopChange={handleLoopChange}
+                                            repeatCount={repeatCount}
+                                            onRepeatCountChange={handleRepeatCountChange}
+                                            onSeek={handleSeekAudio}
+                                            onStop={handleStopAudio}
+                                        />
+                                    )}
+                                    {wordTimings.length > 0
+                                        ? <KaraokeText text={outputText} words={wordTimings} activeWord={activeWord} onSeek={index => handleSeekAudio(wordTimings[index].start)} />
+                                        : <p>{outputText}</p>}
+                                    {alternatives.length > 1 && (
+                                        <ul className="space-y-2 text-base" aria-label="Alternative translations">
+                                            {alternatives.map((alternative, index) => (
+                                                <li key={index}>
+                                                    <button
+                                                        onClick={() => handleSelectAlternative(index)}
+                                                        className={`w-full text-left p-3 rounded-lg border transition-colors ${index === activeAlternative ? 'border-amber-700 bg-amber-50/50 dark:bg-amber-900/20' : 'border-black/10 dark:border-white/10 hover:bg-black/5 dark:hover:bg-white/5'}`}
+                                                        aria-pressed={index === activeAlternative}
+                                                    >
+                                                        <span className="block">{alternative.translation}</span>
+                                                        {alternative.note && <span className="block text-sm text-gray-500 dark:text-gray-400">{alternative.note}</span>}
+                                                    </button>
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {glossaryViolations.length > 0 && (
+                                        <div className="text-sm p-3 rounded-md bg-amber-100 dark:bg-amber-900/40 text-amber-900 dark:text-amber-200 border-l-4 border-amber-600" role="status">
+                                            <p className="font-semibold">Glossary check failed:</p>
+                                            <ul className="list-disc pl-5">
+                                                {glossaryViolations.map(violation => (
+                                                    <li key={violation.source}>
+                                                        {violation.doNotTranslate
+                                                            ? <>"{violation.source}" should have been left untranslated.</>
+                                                            : <>"{violation.source}" should be translated as "{violation.expected}".</>}
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        </div>
+                                    )}
+                                    {isLoading && (
+                                        <ul className="flex flex-wrap gap-2 text-sm" aria-live="polite">
+                                            {PIPELINE_STAGES.filter(({ stage }) => stage !== 'transcription' && (stage !== 'detection' || stageStatus.detection !== 'idle') && (stage !== 'verification' || stageStatus.verification !== 'idle')).map(({ stage, label }) => (
+                                                <li key={stage} className="flex items-center gap-1.5 px-2 py-1 rounded-full bg-black/5 dark:bg-white/10 text-gray-600 dark:text-gray-300">
+                                                    {stageStatus[stage] === 'pending' && <span className="w-3 h-3 border-2 border-amber-700 border-t-transparent rounded-full animate-spin"></span>}
+                                                    {stageStatus[stage] === 'done' && <span className="text-green-600 dark:text-green-400">✓</span>}
+                                                    {stageStatus[stage] === 'error' && <span className="text-red-600 dark:text-red-400">✕</span>}
+                                                    {label}
+                                                    {stageProgress[stage] && ` ${stageProgress[stage].done}/${stageProgress[stage].total}`}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    )}
+                                    {backTranslation && (
+                                        <div className="pt-2 border-t border-black/10 dark:border-white/10 text-sm">
+                                            <p className="font-medium text-gray-500 dark:text-gray-400">
+                                                Back-translation check:{' '}
+                                                <span className={backTranslation.confidence < LOW_CONFIDENCE_THRESHOLD ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}>
+                                                    {Math.round(backTranslation.confidence * 100)}% confidence
+                                                </span>
+                                            </p>
+                                            <div className="mt-1 grid grid-cols-2 gap-x-4 gap-y-1">
+                                                <p className="text-xs uppercase tracking-wide text-gray-400">Original</p>
+                                                <p className="text-xs uppercase tracking-wide text-gray-400">Back-translation</p>
+                                                {backTranslation.sentences.map((sentence, index) => (
+                                                    <React.Fragment key={index}>
+                                                        <p className={`px-1 rounded ${sentence.drifted ? 'bg-red-100 dark:bg-red-900/40' : ''}`} title={`${Math.round(sentence.similarity * 100)}% similar`}>{sentence.original}</p>
+                                                        <p className={`px-1 rounded ${sentence.drifted ? 'bg-red-100 dark:bg-red-900/40' : ''}`}>{sentence.backTranslated || '—'}</p>
+                                                    </React.Fragment>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    )}
                                     {phoneticText && (
                                         <div className="pt-2 border-t border-black/10 dark:border-white/10">
-                                            <p className="text-sm font-medium text-gray-500 dark:text-gray-400">Pronunciation:</p>
-                                            <p className="text-base italic text-gray-600 dark:text-gray-300">{phoneticText}</p>
+                                            <div className="flex items-center gap-2">
+                                                <label htmlFor="phonetic-scheme-select" className="text-sm font-medium text-gray-500 dark:text-gray-400">Pronunciation:</label>
+                                                <select
+                                                    id="phonetic-scheme-select"
+                                                    value={activePhoneticScheme}
+                                                    onChange={(e) => setPhoneticScheme(e.target.value as PhoneticScheme)}
+                                                    className="bg-transparent border border-black/20 dark:border-white/20 text-sm rounded-lg focus:ring-amber-700 focus:border-amber-700 p-1 disabled:opacity-50"
+                                                    disabled={isLoading}
+                                                >
+                                                    {availablePhoneticSchemes.map(scheme => (
+                                                        <option className="bg-paper-light dark:bg-paper-dark" key={scheme.id} value={scheme.id}>{scheme.name}</option>
+                                                    ))}
+                                                </select>
+                                            </div>
+                                            <p className={`text-base text-gray-600 dark:text-gray-300 ${activePhoneticScheme === 'simple' ? 'italic' : ''}`}>{phoneticText}</p>
+                                            {romanizedText && (
+                                                <p className="text-sm text-gray-500 dark:text-gray-400">{romanizedText}</p>
+                                            )}
                                         </div>
                                     )}
                                 </>
@@ -568,6 +1477,68 @@ const App: React.FC = () => {
                 onPurchaseSuccess={handlePurchaseSuccess}
                 currentPlan={subscriptionPlan}
             />
+            <HistoryModal
+                isOpen={isHistoryOpen}
+                onClose={() => setIsHistoryOpen(false)}
+                entries={history}
+                onRestore={handleRestoreHistory}
+                onClear={() => setHistory([])}
+            />
+            <GlossaryModal
+                isOpen={isGlossaryOpen}
+                onClose={() => setIsGlossaryOpen(false)}
+                glossary={glossary}
+                onChange={setGlossary}
+                defaultSourceLanguage={sourceLanguage === AUTO_DETECT_LANGUAGE ? DEFAULT_SOURCE_LANGUAGE : sourceLanguage}
+                defaultTargetLanguage={targetLanguage}
+            />
+            <SubtitleModal
+                isOpen={isSubtitlesOpen}
+                onClose={() => setIsSubtitlesOpen(false)}
+                provider={provider}
+                sourceLanguage={sourceLanguage}
+                targetLanguage={targetLanguage}
+                formality={formality}
+                glossary={glossary}
+                onCoreAction={handleCoreAction}
+                onRefund={refundUsage}
+            />
+            <TranscriptModal
+                isOpen={isTranscriptOpen && transcript !== null}
+                onClose={() => setIsTranscriptOpen(false)}
+                turns={transcript ?? []}
+                onTurnsChange={handleTranscriptChange}
+                provider={provider}
+                sourceLanguage={detectedLanguage?.language ?? sourceLanguage}
+                targetLanguage={targetLanguage}
+                formality={formality}
+                glossary={glossary}
+                onCoreAction={handleCoreAction}
+                onRefund={refundUsage}
+            />
+            <ConversationModal
+                isOpen={isConversationOpen}
+                onClose={() => setIsConversationOpen(false)}
+                provider={provider}
+                initialLanguages={[sourceLanguage === AUTO_DETECT_LANGUAGE ? detectedLanguage?.language ?? DEFAULT_SOURCE_LANGUAGE : sourceLanguage, targetLanguage]}
+                initialVoice={selectedVoice}
+                allowPremiumVoices={subscriptionPlan !== 'FREE'}
+                formality={formality}
+                glossary={glossary}
+                onCoreAction={handleCoreAction}
+                onRefund={refundUsage}
+            />
+            <LocalizationModal
+                isOpen={isLocalizationOpen}
+                onClose={() => setIsLocalizationOpen(false)}
+                provider={provider}
+                sourceLanguage={sourceLanguage}
+                targetLanguage={targetLanguage}
+                formality={formality}
+                glossary={glossary}
+                onCoreAction={handleCoreAction}
+                onRefund={refundUsage}
+            />
         </div>
     );
 };
@@ -0,0 +1,296 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ClearIcon, MicrophoneIcon, StopIcon } from './icons';
+import { SUPPORTED_LANGUAGES, SUPPORTED_VOICES } from '../constants';
+import { Formality } from '../types';
+import { TranslationProvider, isAbortError } from '../services/translationProvider';
+import { describeError } from '../services/errors';
+import { Glossary } from '../services/glossary';
+import { ConversationExportFormat, ConversationParty, ConversationTurn, exportConversation, interpretUtterance } from '../services/conversation';
+import { levelToMeter, recordUtterance } from '../services/voiceActivity';
+import { decode, downloadFile, pcmToWavBlob } from '../utils';
+
+interface ConversationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  provider: TranslationProvider;
+  /** The languages of the two people, taken from the main page when the mode is opened. */
+  initialLanguages: [string, string];
+  initialVoice: string;
+  allowPremiumVoices: boolean;
+  formality: Formality;
+  glossary: Glossary;
+  /** Runs the translation if the plan allows it; `charged` tells whether a credit was taken. */
+  onCoreAction: (action: (charged: boolean) => void) => void;
+  /** Gives the credit back when a charged translation fails or is cancelled. */
+  onRefund: () => void;
+}
+
+type Phase = 'idle' | 'listening' | 'interpreting' | 'speaking';
+
+// A turn ends after this much silence; longer turns are cut off at the limit.
+const TURN_SILENCE_MS = 1500;
+const MAX_TURN_MS = 60 * 1000;
+
+const PHASE_LABELS: Record<Phase, string> = {
+  idle: 'Stopped',
+  listening: 'Listening',
+  interpreting: 'Translating...',
+  speaking: 'Speaking the translation...',
+};
+
+const buttonClassName = 'px-3 py-2 text-sm font-semibold rounded-lg bg-amber-800/90 hover:bg-amber-800 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const secondaryButtonClassName = 'px-3 py-2 text-sm font-medium rounded-lg border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const selectClassName = 'w-full p-2 text-sm bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-lg disabled:opacity-50';
+
+/**
+ * Plays base64 PCM speech (24 kHz, mono, 16-bit) and resolves once it has finished.
+ */
+const playSpeech = (audio: string, signal: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(pcmToWavBlob(decode(audio), 24000, 1, 16));
+  const element = new Audio(url);
+  const finish = (error?: unknown) => {
+    signal.removeEventListener('abort', onAbort);
+    element.pause();
+    URL.revokeObjectURL(url);
+    if (error) reject(error);
+    else resolve();
+  };
+  const onAbort = () => finish(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+  element.onended = () => finish();
+  element.onerror = () => finish(new Error('The translation could not be played.'));
+  signal.addEventListener('abort', onAbort, { once: true });
+  element.play().catch(finish);
+});
+
+const ConversationModal: React.FC<ConversationModalProps> = ({ isOpen, onClose, provider, initialLanguages, initialVoice, allowPremiumVoices, formality, glossary, onCoreAction, onRefund }) => {
+  const [parties, setParties] = useState<[ConversationParty, ConversationParty]>([
+    { language: initialLanguages[0], voice: initialVoice },
+    { language: initialLanguages[1], voice: initialVoice },
+  ]);
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+  const [phase, setPhase] = useState<Phase>('idle');
+  const [activeSpeaker, setActiveSpeaker] = useState<0 | 1>(0);
+  const [level, setLevel] = useState(0);
+  const [message, setMessage] = useState<string | null>(null);
+  // The session's controller stops the whole conversation; the turn's controller only the current recording.
+  const sessionRef = useRef<{ controller: AbortController; turnController: AbortController | null } | null>(null);
+  // The loop outlives renders, so it reads the latest props through refs.
+  const latestRef = useRef({ onCoreAction, onRefund, formality, glossary });
+  latestRef.current = { onCoreAction, onRefund, formality, glossary };
+
+  // Picks up the main page's languages each time the mode is opened.
+  const [firstLanguage, secondLanguage] = initialLanguages;
+  useEffect(() => {
+    if (isOpen && !sessionRef.current) {
+      setParties(([first, second]) => [{ ...first, language: firstLanguage }, { ...second, language: secondLanguage }]);
+    }
+  }, [isOpen, firstLanguage, secondLanguage]);
+
+  const stopConversation = useCallback(() => {
+    const session = sessionRef.current;
+    if (!session) return;
+    sessionRef.current = null;
+    session.controller.abort();
+    session.turnController?.abort();
+  }, []);
+
+  // Stops the microphone if the app unmounts mid-conversation.
+  useEffect(() => stopConversation, [stopConversation]);
+
+  const handleClose = useCallback(() => {
+    stopConversation();
+    onClose();
+  }, [stopConversation, onClose]);
+
+  const handleEscKey = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      handleClose();
+    }
+  }, [handleClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscKey);
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, [isOpen, handleEscKey]);
+
+  if (!isOpen) return null;
+
+  // Takes a credit for one turn; resolves to null when the plan's limit has been reached.
+  const takeCredit = () => new Promise<boolean | null>(resolve => {
+    let allowed = false;
+    latestRef.current.onCoreAction(charged => {
+      allowed = true;
+      resolve(charged);
+    });
+    if (!allowed) resolve(null);
+  });
+
+  /**
+   * Runs the conversation: listen to one person until they pause, translate and speak it for the
+   * other, then listen to the other person. A pause without speech keeps listening to the same person.
+   */
+  const runConversation = async (firstSpeaker: 0 | 1) => {
+    let stream: MediaStream;
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+    } catch (err) {
+      setMessage(err instanceof Error ? `Microphone access denied: ${err.message}` : String(err));
+      return;
+    }
+    const session = { controller: new AbortController(), turnController: null as AbortController | null };
+    sessionRef.current = session;
+    const { signal } = session.controller;
+    setMessage(null);
+
+    let speaker = firstSpeaker;
+    try {
+      while (!signal.aborted) {
+        const [from, to] = speaker === 0 ? [parties[0], parties[1]] : [parties[1], parties[0]];
+        setActiveSpeaker(speaker);
+        setPhase('listening');
+        session.turnController = new AbortController();
+        let recorded: { recording: Blob; hasSpeech: boolean };
+        try {
+          recorded = await recordUtterance(stream, { silenceMs: TURN_SILENCE_MS, maxMs: MAX_TURN_MS }, {
+            signal: session.turnController.signal,
+            onActivity: state => setLevel(state.level),
+          });
+        } catch (err) {
+          if (signal.aborted || !isAbortError(err)) throw err;
+          // The turn was handed to the other person.
+          speaker = speaker === 0 ? 1 : 0;
+          continue;
+        }
+        setLevel(0);
+        if (!recorded.hasSpeech) continue;
+
+        const charged = await takeCredit();
+        if (charged === null) break;
+        setPhase('interpreting');
+        let result;
+        try {
+          const { formality, glossary } = latestRef.current;
+          result = await interpretUtterance(provider, recorded.recording, from, to, { formality, glossary, signal });
+        } catch (err) {
+          if (charged) latestRef.current.onRefund();
+          throw err;
+        }
+        if (!result) {
+          if (charged) latestRef.current.onRefund();
+          continue;
+        }
+
+        const { original, translation, audio } = result;
+        setTurns(current => [...current, { speaker, original, translation, time: Date.now() }]);
+        setPhase('speaking');
+        await playSpeech(audio, signal);
+        speaker = speaker === 0 ? 1 : 0;
+      }
+    } catch (err) {
+      if (!signal.aborted && !isAbortError(err)) setMessage(describeError('Interpreting', err));
+    } finally {
+      stream.getTracks().forEach(track => track.stop());
+      if (sessionRef.current === session) sessionRef.current = null;
+      setPhase('idle');
+      setLevel(0);
+    }
+  };
+
+  const handleSwitchSpeaker = () => sessionRef.current?.turnController?.abort();
+
+  const updateParty = (index: 0 | 1, change: Partial<ConversationParty>) => {
+    setParties(current => {
+      const next: [ConversationParty, ConversationParty] = [current[0], current[1]];
+      next[index] = { ...next[index], ...change };
+      return next;
+    });
+  };
+
+  const handleExport = (format: ConversationExportFormat) => {
+    const stamp = new Date().toISOString().slice(0, 16).replace(/[T:]/g, '-');
+    downloadFile(exportConversation(turns, parties, format), `conversation-${stamp}.${format}`, format === 'json' ? 'application/json' : 'text/plain');
+  };
+
+  const isRunning = phase !== 'idle';
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="conversation-title">
+      <div className="bg-paper-light dark:bg-paper-dark text-gray-800 dark:text-gray-200 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 relative space-y-6">
+          <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors" aria-label="Close conversation mode">
+            <ClearIcon className="h-6 w-6" />
+          </button>
+          <div>
+            <h2 id="conversation-title" className="text-2xl font-bold font-serif text-gray-800 dark:text-gray-100">Conversation</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Two people take turns speaking. Each turn ends when the speaker pauses; it is translated and spoken aloud, then the app listens to the other person.</p>
+          </div>
+
+          <section className="grid grid-cols-2 gap-4">
+            {([0, 1] as const).map(index => (
+              <div key={index} className={`p-3 rounded-lg border space-y-2 ${isRunning && activeSpeaker === index ? 'border-amber-700 bg-amber-700/10' : 'border-black/20 dark:border-white/20'}`}>
+                <select value={parties[index].language} onChange={(e) => updateParty(index, { language: e.target.value })} className={selectClassName} disabled={isRunning} aria-label={`Language of person ${index + 1}`}>
+                  {SUPPORTED_LANGUAGES.map(lang => <option key={lang.code} value={lang.name}>{lang.name}</option>)}
+                </select>
+                <select value={parties[index].voice} onChange={(e) => updateParty(index, { voice: e.target.value })} className={selectClassName} disabled={isRunning} aria-label={`Voice for person ${index + 1}`}>
+                  {SUPPORTED_VOICES.map(voice => (
+                    <option key={voice.code} value={voice.code} disabled={voice.premium && !allowPremiumVoices}>
+                      {voice.name} {voice.premium && '(Premium)'}
+                    </option>
+                  ))}
+                </select>
+                {!isRunning && (
+                  <button onClick={() => runConversation(index)} className={`${buttonClassName} w-full flex items-center justify-center gap-2`} disabled={parties[0].language === parties[1].language}>
+                    <MicrophoneIcon className="h-4 w-4" /> {parties[index].language} speaks first
+                  </button>
+                )}
+                {isRunning && activeSpeaker === index && (
+                  <div className="text-sm flex items-center gap-2" role="status">
+                    <span>{PHASE_LABELS[phase]}</span>
+                    {phase === 'listening' && (
+                      <span className="flex-grow h-2 rounded bg-black/10 dark:bg-white/10 overflow-hidden">
+                        <span className="block h-full bg-green-500 transition-[width]" style={{ width: `${levelToMeter(level) * 100}%` }} />
+                      </span>
+                    )}
+                  </div>
+                )}
+              </div>
+            ))}
+          </section>
+
+          <section className="flex flex-wrap items-center gap-2">
+            {isRunning && (
+              <>
+                <button onClick={stopConversation} className={`${buttonClassName} flex items-center gap-2`}>
+                  <StopIcon className="h-4 w-4" /> Stop
+                </button>
+                <button onClick={handleSwitchSpeaker} className={secondaryButtonClassName} disabled={phase !== 'listening'}>Switch speaker</button>
+              </>
+            )}
+            <span className="text-sm text-gray-600 dark:text-gray-400 ml-auto">Export:</span>
+            <button onClick={() => handleExport('txt')} className={secondaryButtonClassName} disabled={turns.length === 0}>Text</button>
+            <button onClick={() => handleExport('json')} className={secondaryButtonClassName} disabled={turns.length === 0}>JSON</button>
+            <button onClick={() => setTurns([])} className={secondaryButtonClassName} disabled={turns.length === 0 || isRunning}>Clear</button>
+            {message && <p className="w-full text-sm text-red-700 dark:text-red-300" role="alert">{message}</p>}
+          </section>
+
+          {turns.length > 0 && (
+            <ol className="grid grid-cols-2 gap-3 text-sm max-h-96 overflow-y-auto" aria-label="Conversation transcript">
+              {turns.map((turn, index) => (
+                <li key={index} className={`col-span-1 p-3 rounded-lg bg-black/5 dark:bg-white/5 ${turn.speaker === 0 ? 'col-start-1' : 'col-start-2'}`}>
+                  <p className="font-medium">{turn.original}</p>
+                  <p className="text-gray-600 dark:text-gray-400 mt-1">{turn.translation}</p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ConversationModal;
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ClearIcon } from './icons';
+import { SUPPORTED_LANGUAGES } from '../constants';
+import { downloadFile } from '../utils';
+import { Glossary, glossaryToCsv, glossaryToTbx, mergeGlossaries, parseGlossaryCsv, parseGlossaryTbx } from '../services/glossary';
+
+interface GlossaryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  glossary: Glossary;
+  onChange: (glossary: Glossary) => void;
+  /** Language pair preselected for new entries. */
+  defaultSourceLanguage: string;
+  defaultTargetLanguage: string;
+}
+
+const inputClassName = 'p-2 text-sm bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-lg focus:ring-amber-700 focus:border-amber-700';
+const buttonClassName = 'px-3 py-2 text-sm font-semibold rounded-lg bg-amber-800/90 hover:bg-amber-800 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const secondaryButtonClassName = 'px-3 py-2 text-sm font-medium rounded-lg border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 transition-colors cursor-pointer';
+
+const GlossaryModal: React.FC<GlossaryModalProps> = ({ isOpen, onClose, glossary, onChange, defaultSourceLanguage, defaultTargetLanguage }) => {
+  const [sourceLanguage, setSourceLanguage] = useState(defaultSourceLanguage);
+  const [targetLanguage, setTargetLanguage] = useState(defaultTargetLanguage);
+  const [sourceTerm, setSourceTerm] = useState('');
+  const [targetTerm, setTargetTerm] = useState('');
+  const [keptTerm, setKeptTerm] = useState('');
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleEscKey = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  }, [onClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscKey);
+      setSourceLanguage(defaultSourceLanguage);
+      setTargetLanguage(defaultTargetLanguage);
+      setImportMessage(null);
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, [isOpen, handleEscKey, defaultSourceLanguage, defaultTargetLanguage]);
+
+  if (!isOpen) return null;
+
+  const handleAddEntry = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sourceTerm.trim() || !targetTerm.trim()) return;
+    onChange(mergeGlossaries(glossary, {
+      entries: [{ sourceLanguage, targetLanguage, source: sourceTerm.trim(), target: targetTerm.trim() }],
+      doNotTranslate: [],
+    }));
+    setSourceTerm('');
+    setTargetTerm('');
+  };
+
+  const handleAddKeptTerm = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!keptTerm.trim()) return;
+    onChange(mergeGlossaries(glossary, { entries: [], doNotTranslate: [keptTerm.trim()] }));
+    setKeptTerm('');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const content = await file.text();
+      // TBX is XML; anything else is read as CSV.
+      const imported = content.trimStart().startsWith('<') ? parseGlossaryTbx(content) : parseGlossaryCsv(content);
+      onChange(mergeGlossaries(glossary, imported));
+      setImportMessage(`Imported ${imported.entries.length} term${imported.entries.length !== 1 ? 's' : ''} and ${imported.doNotTranslate.length} do-not-translate term${imported.doNotTranslate.length !== 1 ? 's' : ''} from ${file.name}.`);
+    } catch (err) {
+      setImportMessage(`Could not import ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="glossary-title">
+      <div className="bg-paper-light dark:bg-paper-dark text-gray-800 dark:text-gray-200 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 relative space-y-6">
+          <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors" aria-label="Close glossary">
+            <ClearIcon className="h-6 w-6" />
+          </button>
+          <div>
+            <h2 id="glossary-title" className="text-2xl font-bold font-serif text-gray-800 dark:text-gray-100">Glossary</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Pinned terms are always translated the same way, and do-not-translate terms are kept as is. Translations that break a rule are flagged.</p>
+          </div>
+
+          <section className="space-y-3">
+            <h3 className="font-semibold">Pinned terms</h3>
+            <form onSubmit={handleAddEntry} className="grid grid-cols-2 sm:grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+              <select value={sourceLanguage} onChange={(e) => setSourceLanguage(e.target.value)} className={inputClassName} aria-label="Source language">
+                {SUPPORTED_LANGUAGES.map(lang => <option className="bg-paper-light dark:bg-paper-dark" key={lang.code} value={lang.name}>{lang.name}</option>)}
+              </select>
+              <select value={targetLanguage} onChange={(e) => setTargetLanguage(e.target.value)} className={inputClassName} aria-label="Target language">
+                {SUPPORTED_LANGUAGES.map(lang => <option className="bg-paper-light dark:bg-paper-dark" key={lang.code} value={lang.name}>{lang.name}</option>)}
+              </select>
+              <input value={sourceTerm} onChange={(e) => setSourceTerm(e.target.value)} placeholder="Term" className={inputClassName} aria-label="Source term" />
+              <input value={targetTerm} onChange={(e) => setTargetTerm(e.target.value)} placeholder="Translation" className={inputClassName} aria-label="Target term" />
+              <button type="submit" className={buttonClassName} disabled={!sourceTerm.trim() || !targetTerm.trim()}>Add</button>
+            </form>
+            {glossary.entries.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No pinned terms yet.</p>
+            ) : (
+              <ul className="divide-y divide-black/10 dark:divide-white/10 text-sm">
+                {glossary.entries.map(entry => (
+                  <li key={`${entry.sourceLanguage}|${entry.targetLanguage}|${entry.source}`} className="flex items-center gap-3 py-2">
+                    <span className="text-xs text-gray-500 dark:text-gray-400 w-40 shrink-0">{entry.sourceLanguage} → {entry.targetLanguage}</span>
+                    <span className="flex-1">{entry.source}</span>
+                    <span className="flex-1">{entry.target}</span>
+                    <button
+                      onClick={() => onChange({ ...glossary, entries: glossary.entries.filter(other => other !== entry) })}
+                      className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                      aria-label={`Remove ${entry.source}`}
+                    >
+                      <ClearIcon className="h-4 w-4" />
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="space-y-3">
+            <h3 className="font-semibold">Do not translate</h3>
+            <form onSubmit={handleAddKeptTerm} className="flex gap-2">
+              <input value={keptTerm} onChange={(e) => setKeptTerm(e.target.value)} placeholder="Brand or product name" className={`${inputClassName} flex-1`} aria-label="Do-not-translate term" />
+              <button type="submit" className={buttonClassName} disabled={!keptTerm.trim()}>Add</button>
+            </form>
+            <div className="flex flex-wrap gap-2">
+              {glossary.doNotTranslate.map(term => (
+                <span key={term} className="flex items-center gap-1 px-2 py-1 rounded-full bg-black/5 dark:bg-white/10 text-sm">
+                  {term}
+                  <button
+                    onClick={() => onChange({ ...glossary, doNotTranslate: glossary.doNotTranslate.filter(other => other !== term) })}
+                    className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200"
+                    aria-label={`Remove ${term}`}
+                  >
+                    <ClearIcon className="h-3.5 w-3.5" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          </section>
+
+          <section className="flex flex-wrap items-center gap-2 pt-4 border-t border-black/10 dark:border-white/10">
+            <button onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName}>Import CSV / TBX</button>
+            <input ref={fileInputRef} type="file" accept=".csv,.tbx,.xml,text/csv,application/xml" className="hidden" onChange={handleImport} />
+            <button onClick={() => downloadFile(glossaryToCsv(glossary), 'glossary.csv', 'text/csv')} className={secondaryButtonClassName}>Export CSV</button>
+            <button onClick={() => downloadFile(glossaryToTbx(glossary), 'glossary.tbx', 'application/x-tbx+xml')} className={secondaryButtonClassName}>Export TBX</button>
+            {importMessage && <p className="w-full text-sm text-gray-600 dark:text-gray-400" role="status">{importMessage}</p>}
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GlossaryModal;
@@ -0,0 +1,78 @@
+import React, { useEffect, useCallback } from 'react';
+import { ClearIcon } from './icons';
+import { AUTO_DETECT_LANGUAGE, FORMALITY_LEVELS } from '../constants';
+import { HistoryEntry } from '../services/translationHistory';
+
+interface HistoryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  entries: HistoryEntry[];
+  /** Loads an entry's text, languages and register back into the translator. */
+  onRestore: (entry: HistoryEntry) => void;
+  onClear: () => void;
+}
+
+const buttonClassName = 'px-3 py-1.5 text-sm font-semibold rounded-lg bg-amber-800/90 hover:bg-amber-800 text-white transition-colors';
+const secondaryButtonClassName = 'px-3 py-2 text-sm font-medium rounded-lg border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const HistoryModal: React.FC<HistoryModalProps> = ({ isOpen, onClose, entries, onRestore, onClear }) => {
+  const handleEscKey = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      onClose();
+    }
+  }, [onClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscKey);
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, [isOpen, handleEscKey]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="history-title">
+      <div className="bg-paper-light dark:bg-paper-dark text-gray-800 dark:text-gray-200 rounded-2xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 relative space-y-6">
+          <button onClick={onClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors" aria-label="Close history">
+            <ClearIcon className="h-6 w-6" />
+          </button>
+          <div>
+            <h2 id="history-title" className="text-2xl font-bold font-serif text-gray-800 dark:text-gray-100">History</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Recent translations with the languages and register they were made in. Restoring one loads its text, languages and register back into the translator.</p>
+          </div>
+
+          {entries.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">No translations yet.</p>
+          ) : (
+            <ul className="space-y-3">
+              {entries.map(entry => (
+                <li key={entry.id} className="p-3 rounded-lg border border-black/10 dark:border-white/10 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2 text-xs text-gray-500 dark:text-gray-400">
+                    <span>{new Date(entry.time).toLocaleString()}</span>
+                    <span>{entry.sourceLanguage === AUTO_DETECT_LANGUAGE ? 'Detected language' : entry.sourceLanguage} → {entry.targetLanguage}</span>
+                    <span className="px-2 py-0.5 rounded-full bg-black/5 dark:bg-white/10">
+                      {FORMALITY_LEVELS.find(level => level.id === entry.formality)?.name ?? entry.formality}
+                    </span>
+                    <button onClick={() => onRestore(entry)} className={`ml-auto ${buttonClassName}`}>Restore</button>
+                  </div>
+                  <p className="text-sm line-clamp-2">{entry.text}</p>
+                  <p className="text-sm line-clamp-2 text-gray-600 dark:text-gray-300">{entry.translation}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          <section className="flex flex-wrap items-center gap-2 pt-4 border-t border-black/10 dark:border-white/10">
+            <button onClick={onClear} disabled={entries.length === 0} className={secondaryButtonClassName}>Clear history</button>
+          </section>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryModal;
@@ -0,0 +1,43 @@
+import React, { useEffect, useRef } from 'react';
+import { TimedWord } from '../services/wordTiming';
+
+interface KaraokeTextProps {
+  text: string;
+  words: TimedWord[];
+  /** Index of the word being spoken, or -1 when nothing is playing. */
+  activeWord: number;
+  /** Called with the index of a clicked word, to play from there. */
+  onSeek: (index: number) => void;
+}
+
+// The translation with each spoken word clickable, highlighting the one being spoken.
+const KaraokeText: React.FC<KaraokeTextProps> = ({ text, words, activeWord, onSeek }) => {
+  const activeRef = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    activeRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [activeWord]);
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  words.forEach((word, index) => {
+    if (word.offset > position) parts.push(text.slice(position, word.offset));
+    parts.push(
+      <button
+        key={index}
+        ref={index === activeWord ? activeRef : undefined}
+        onClick={() => onSeek(index)}
+        className={`inline rounded px-0.5 -mx-0.5 transition-colors ${index === activeWord ? 'bg-amber-200 dark:bg-amber-700/60' : 'hover:bg-black/5 dark:hover:bg-white/10'}`}
+        title={`Play from ${word.start.toFixed(1)} s`}
+      >
+        {word.text}
+      </button>
+    );
+    position = word.offset + word.text.length;
+  });
+  if (position < text.length) parts.push(text.slice(position));
+
+  return <p>{parts}</p>;
+};
+
+export default KaraokeText;
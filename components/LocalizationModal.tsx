@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ClearIcon } from './icons';
+import { AUTO_DETECT_LANGUAGE, SUPPORTED_LANGUAGES } from '../constants';
+import { Formality } from '../types';
+import { TranslationProvider, isAbortError } from '../services/translationProvider';
+import { describeError } from '../services/errors';
+import { Glossary, findGlossaryTerms } from '../services/glossary';
+import { LocalizationCatalog, LocalizationResult, parseLocalizationCatalog, translateCatalog } from '../services/localization';
+import { downloadFile } from '../utils';
+
+interface LocalizationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  provider: TranslationProvider;
+  sourceLanguage: string;
+  targetLanguage: string;
+  formality: Formality;
+  glossary: Glossary;
+  /** Runs the translation if the plan allows it; `charged` tells whether a credit was taken. */
+  onCoreAction: (action: (charged: boolean) => void) => void;
+  /** Gives the credit back when a charged translation fails or is cancelled. */
+  onRefund: () => void;
+}
+
+const buttonClassName = 'px-3 py-2 text-sm font-semibold rounded-lg bg-amber-800/90 hover:bg-amber-800 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const secondaryButtonClassName = 'px-3 py-2 text-sm font-medium rounded-lg border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const LocalizationModal: React.FC<LocalizationModalProps> = ({ isOpen, onClose, provider, sourceLanguage, targetLanguage, formality, glossary, onCoreAction, onRefund }) => {
+  const [fileName, setFileName] = useState('');
+  const [catalog, setCatalog] = useState<LocalizationCatalog | null>(null);
+  const [result, setResult] = useState<LocalizationResult | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const runRef = useRef<{ controller: AbortController; charged: boolean } | null>(null);
+
+  const cancelRun = useCallback(() => {
+    const run = runRef.current;
+    if (!run) return;
+    runRef.current = null;
+    run.controller.abort();
+    if (run.charged) onRefund();
+  }, [onRefund]);
+
+  const handleClose = useCallback(() => {
+    cancelRun();
+    setProgress(null);
+    onClose();
+  }, [cancelRun, onClose]);
+
+  const handleEscKey = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      handleClose();
+    }
+  }, [handleClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscKey);
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, [isOpen, handleEscKey]);
+
+  if (!isOpen) return null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    cancelRun();
+    setProgress(null);
+    setResult(null);
+    try {
+      const parsed = parseLocalizationCatalog(file.name, await file.text());
+      setCatalog(parsed);
+      setFileName(file.name);
+      const skipped = parsed.alreadyTranslated > 0 ? `, ${parsed.alreadyTranslated} already translated` : '';
+      setMessage(`${file.name}: ${parsed.strings.length} strings to translate${skipped}.`);
+    } catch (err) {
+      setCatalog(null);
+      setMessage(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleTranslate = () => {
+    if (!catalog || catalog.strings.length === 0) return;
+    onCoreAction(async charged => {
+      const run = { controller: new AbortController(), charged };
+      runRef.current = run;
+      const { signal } = run.controller;
+      setResult(null);
+      setMessage(null);
+      setProgress({ done: 0, total: 1 });
+      try {
+        const text = catalog.strings.map(string => string.source).join('\n');
+        const fromLanguage = sourceLanguage === AUTO_DETECT_LANGUAGE
+          ? (await provider.detectLanguage(text.slice(0, 2000), { signal })).language
+          : sourceLanguage;
+        const translated = await translateCatalog(provider, catalog, fromLanguage, targetLanguage, {
+          formality,
+          glossary: findGlossaryTerms(glossary, text, fromLanguage, targetLanguage),
+          signal,
+        }, (done, total) => runRef.current === run && setProgress({ done, total }));
+        if (runRef.current !== run) return;
+        runRef.current = null;
+        setResult(translated);
+        setMessage(translated.issues.length === 0
+          ? `Translated ${translated.translations.size} strings; all placeholders are intact.`
+          : `Translated ${translated.translations.size} strings; ${translated.issues.length} need fixing before the file can be used.`);
+      } catch (err) {
+        if (runRef.current !== run || isAbortError(err)) return;
+        runRef.current = null;
+        if (charged) onRefund();
+        setMessage(describeError('Catalog translation', err));
+      } finally {
+        if (runRef.current === null) setProgress(null);
+      }
+    });
+  };
+
+  const handleDownload = () => {
+    if (!catalog || !result) return;
+    const languageCode = SUPPORTED_LANGUAGES.find(lang => lang.name === targetLanguage)?.code ?? 'translated';
+    const baseName = fileName.replace(/\.(json|pot?)$/i, '');
+    if (catalog.format === 'json') {
+      downloadFile(catalog.serialize(result.translations, targetLanguage), `${baseName}.${languageCode}.json`, 'application/json');
+    } else {
+      downloadFile(catalog.serialize(result.translations, targetLanguage), `${languageCode}.po`, 'text/x-gettext-translation');
+    }
+  };
+
+  const isTranslating = progress !== null;
+  const issueIds = new Set(result?.issues.map(issue => issue.id));
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="localization-title">
+      <div className="bg-paper-light dark:bg-paper-dark text-gray-800 dark:text-gray-200 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 relative space-y-6">
+          <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors" aria-label="Close localization files">
+            <ClearIcon className="h-6 w-6" />
+          </button>
+          <div>
+            <h2 id="localization-title" className="text-2xl font-bold font-serif text-gray-800 dark:text-gray-100">Localization files</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Translate the values of an i18n JSON file or a gettext PO catalog into {targetLanguage}. Keys, placeholders such as {'{count}'} and %s, HTML tags and plural forms are kept.</p>
+          </div>
+
+          <section className="flex flex-wrap items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName} disabled={isTranslating}>Choose .json / .po</button>
+            <input ref={fileInputRef} type="file" accept=".json,.po,.pot,application/json,text/x-gettext-translation" className="hidden" onChange={handleFile} />
+            <button onClick={handleTranslate} className={buttonClassName} disabled={!catalog || catalog.strings.length === 0 || isTranslating}>
+              {isTranslating ? `Translating ${progress.done}/${progress.total}...` : 'Translate'}
+            </button>
+            <button onClick={handleDownload} className={secondaryButtonClassName} disabled={!result}>{result?.issues.length ? 'Download anyway' : 'Download'}</button>
+            {message && <p className="w-full text-sm text-gray-600 dark:text-gray-400" role="status">{message}</p>}
+          </section>
+
+          {result && result.issues.length > 0 && (
+            <div className="text-sm p-3 rounded-md bg-red-100 dark:bg-red-900/50 text-red-800 dark:text-red-200 border-l-4 border-red-500" role="alert">
+              <p className="font-semibold">Placeholder check failed:</p>
+              <ul className="list-disc pl-5">
+                {result.issues.map(issue => (
+                  <li key={issue.id}>
+                    <code>{issue.label}</code>
+                    {issue.missing.length > 0 && <> is missing {issue.missing.map(placeholder => <code key={placeholder} className="mx-0.5">{placeholder}</code>)}</>}
+                    {issue.missing.length > 0 && issue.unexpected.length > 0 && ' and'}
+                    {issue.unexpected.length > 0 && <> has unexpected {issue.unexpected.map(placeholder => <code key={placeholder} className="mx-0.5">{placeholder}</code>)}</>}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {catalog && catalog.strings.length > 0 && (
+            <ol className="divide-y divide-black/10 dark:divide-white/10 text-sm max-h-96 overflow-y-auto">
+              {catalog.strings.map(string => (
+                <li key={string.id} className={`grid grid-cols-[minmax(0,10rem)_1fr_1fr] gap-3 py-2 ${issueIds.has(string.id) ? 'bg-red-100 dark:bg-red-900/40' : ''}`}>
+                  <code className="text-xs text-gray-500 dark:text-gray-400 truncate" title={string.label}>{string.label}</code>
+                  <span className="whitespace-pre-line">{string.source}</span>
+                  <span className="whitespace-pre-line">{result?.translations.get(string.id)}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LocalizationModal;
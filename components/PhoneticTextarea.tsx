@@ -0,0 +1,180 @@
+import React, { useState, useRef, useEffect, useLayoutEffect } from 'react';
+import { getCandidates } from '../services/avroPhonetic';
+
+type TextareaProps = Omit<React.TextareaHTMLAttributes<HTMLTextAreaElement>, 'value' | 'onChange'>;
+
+interface PhoneticTextareaProps extends TextareaProps {
+  value: string;
+  onChange: (value: string) => void;
+  /** When on, Latin keystrokes are transliterated into Bengali as they are typed. */
+  phoneticEnabled: boolean;
+}
+
+// The word currently being typed: its roman input and the Bengali shown in its place.
+interface Composition {
+  start: number;
+  roman: string;
+  candidates: string[];
+  selected: number;
+}
+
+// Keys that start a new word; the others only make sense inside one (e.g. ",," for hasanta).
+const STARTS_WORD = /^[A-Za-z0-9`$]$/;
+const EXTENDS_WORD = /^[,^:]$/;
+
+const PhoneticTextarea: React.FC<PhoneticTextareaProps> = ({ value, onChange, phoneticEnabled, onKeyDown, onBlur, onMouseDown, ...textareaProps }) => {
+  const [composition, setComposition] = useState<Composition | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const pendingCaretRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!phoneticEnabled) setComposition(null);
+  }, [phoneticEnabled]);
+
+  // Put the caret back after we rewrite the value ourselves.
+  useLayoutEffect(() => {
+    if (pendingCaretRef.current !== null && textareaRef.current) {
+      textareaRef.current.setSelectionRange(pendingCaretRef.current, pendingCaretRef.current);
+      pendingCaretRef.current = null;
+    }
+  }, [value]);
+
+  const preview = composition ? composition.candidates[composition.selected] : '';
+
+  // Replaces the text of the current composition (or the given range) with `text`.
+  const replaceRange = (start: number, end: number, text: string) => {
+    pendingCaretRef.current = start + text.length;
+    onChange(value.slice(0, start) + text + value.slice(end));
+  };
+
+  const compose = (start: number, end: number, roman: string, selected = 0) => {
+    const candidates = getCandidates(roman);
+    setComposition({ start, roman, candidates, selected });
+    replaceRange(start, end, candidates[selected]);
+  };
+
+  const selectCandidate = (index: number) => {
+    if (!composition) return;
+    setComposition({ ...composition, selected: index });
+    replaceRange(composition.start, composition.start + preview.length, composition.candidates[index]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    onKeyDown?.(e);
+    if (e.defaultPrevented || !phoneticEnabled || e.ctrlKey || e.metaKey || e.altKey || e.nativeEvent.isComposing) return;
+
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    // The caret left the word (e.g. after a click), so it's already committed.
+    const active = composition && selectionStart === selectionEnd && selectionStart === composition.start + preview.length ? composition : null;
+
+    if (STARTS_WORD.test(e.key) || (active && EXTENDS_WORD.test(e.key))) {
+      e.preventDefault();
+      if (active) compose(active.start, selectionEnd, active.roman + e.key);
+      else compose(selectionStart, selectionEnd, e.key);
+      return;
+    }
+
+    if (!active) {
+      setComposition(null);
+      if (e.key === '.') {
+        e.preventDefault();
+        replaceRange(selectionStart, selectionEnd, '।');
+      }
+      return;
+    }
+
+    switch (e.key) {
+      case 'ArrowDown':
+      case 'ArrowUp': {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        selectCandidate((active.selected + step + active.candidates.length) % active.candidates.length);
+        return;
+      }
+      case 'Escape':
+        // Keep what was actually typed.
+        e.preventDefault();
+        setComposition(null);
+        replaceRange(active.start, selectionEnd, active.roman);
+        return;
+      case 'Backspace': {
+        e.preventDefault();
+        const roman = active.roman.slice(0, -1);
+        if (roman) {
+          compose(active.start, selectionEnd, roman);
+        } else {
+          setComposition(null);
+          replaceRange(active.start, selectionEnd, '');
+        }
+        return;
+      }
+      case 'Enter':
+      case 'Tab':
+        // Accept the highlighted candidate without inserting anything.
+        e.preventDefault();
+        setComposition(null);
+        return;
+      case '.':
+        e.preventDefault();
+        setComposition(null);
+        replaceRange(selectionEnd, selectionEnd, '।');
+        return;
+      default:
+        // Space, punctuation and caret movement accept the word and then behave normally.
+        setComposition(null);
+    }
+  };
+
+  return (
+    <div className="relative w-full h-full">
+      <textarea
+        {...textareaProps}
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          // Pastes, IME input and the like bypass the transliterator.
+          setComposition(null);
+          onChange(e.target.value);
+        }}
+        onKeyDown={handleKeyDown}
+        onBlur={(e) => {
+          setComposition(null);
+          onBlur?.(e);
+        }}
+        onMouseDown={(e) => {
+          setComposition(null);
+          onMouseDown?.(e);
+        }}
+        aria-autocomplete={phoneticEnabled ? 'list' : undefined}
+        aria-controls={composition ? 'phonetic-candidates' : undefined}
+      />
+      {composition && composition.candidates.length > 1 && (
+        <ul
+          id="phonetic-candidates"
+          role="listbox"
+          aria-label={`Bengali spellings for "${composition.roman}"`}
+          className="absolute left-2 bottom-2 z-10 min-w-[10rem] py-1 bg-paper-light dark:bg-paper-dark border border-black/20 dark:border-white/20 rounded-lg shadow-lg text-lg"
+        >
+          {composition.candidates.map((candidate, index) => (
+            <li
+              key={candidate}
+              role="option"
+              aria-selected={index === composition.selected}
+              // Keep focus in the textarea so typing can continue.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                selectCandidate(index);
+                setComposition(null);
+              }}
+              className={`px-3 py-1 cursor-pointer ${index === composition.selected ? 'bg-amber-700/20' : 'hover:bg-black/10 dark:hover:bg-white/10'}`}
+            >
+              {candidate}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default PhoneticTextarea;
@@ -0,0 +1,198 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ClearIcon } from './icons';
+import { AUTO_DETECT_LANGUAGE, SUPPORTED_LANGUAGES } from '../constants';
+import { Formality } from '../types';
+import { TranslationProvider, isAbortError } from '../services/translationProvider';
+import { describeError } from '../services/errors';
+import { Glossary, findGlossaryTerms } from '../services/glossary';
+import { DEFAULT_SUBTITLE_LINE_LENGTH, SubtitleCue, SubtitleDocument, parseSubtitles, serializeSubtitles, translateSubtitles } from '../services/subtitles';
+import { downloadFile } from '../utils';
+
+interface SubtitleModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  provider: TranslationProvider;
+  sourceLanguage: string;
+  targetLanguage: string;
+  formality: Formality;
+  glossary: Glossary;
+  /** Runs the translation if the plan allows it; `charged` tells whether a credit was taken. */
+  onCoreAction: (action: (charged: boolean) => void) => void;
+  /** Gives the credit back when a charged translation fails or is cancelled. */
+  onRefund: () => void;
+}
+
+const buttonClassName = 'px-3 py-2 text-sm font-semibold rounded-lg bg-amber-800/90 hover:bg-amber-800 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const secondaryButtonClassName = 'px-3 py-2 text-sm font-medium rounded-lg border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const MIN_LINE_LENGTH = 10;
+const MAX_LINE_LENGTH = 120;
+
+// The line length typed in, clamped to the allowed range; anything unreadable falls back to the default.
+const parseLineLength = (input: string) => {
+  const value = Math.round(Number(input));
+  return input.trim() && Number.isFinite(value) ? Math.min(MAX_LINE_LENGTH, Math.max(MIN_LINE_LENGTH, value)) : DEFAULT_SUBTITLE_LINE_LENGTH;
+};
+
+const cuesOf = (document: SubtitleDocument | null) =>
+  document?.blocks.filter((block): block is SubtitleCue => block.kind === 'cue') ?? [];
+
+const SubtitleModal: React.FC<SubtitleModalProps> = ({ isOpen, onClose, provider, sourceLanguage, targetLanguage, formality, glossary, onCoreAction, onRefund }) => {
+  const [fileName, setFileName] = useState('');
+  const [original, setOriginal] = useState<SubtitleDocument | null>(null);
+  const [translated, setTranslated] = useState<SubtitleDocument | null>(null);
+  // Kept as typed, so partial values like "3" on the way to "30" are not clamped mid-keystroke.
+  const [maxLineLength, setMaxLineLength] = useState(String(DEFAULT_SUBTITLE_LINE_LENGTH));
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const runRef = useRef<{ controller: AbortController; charged: boolean } | null>(null);
+
+  const cancelRun = useCallback(() => {
+    const run = runRef.current;
+    if (!run) return;
+    runRef.current = null;
+    run.controller.abort();
+    if (run.charged) onRefund();
+  }, [onRefund]);
+
+  const handleClose = useCallback(() => {
+    cancelRun();
+    setProgress(null);
+    onClose();
+  }, [cancelRun, onClose]);
+
+  const handleEscKey = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      handleClose();
+    }
+  }, [handleClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscKey);
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, [isOpen, handleEscKey]);
+
+  if (!isOpen) return null;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    cancelRun();
+    setProgress(null);
+    setTranslated(null);
+    try {
+      const parsed = parseSubtitles(await file.text());
+      setOriginal(parsed);
+      setFileName(file.name);
+      setMessage(`${file.name}: ${cuesOf(parsed).length} cues (${parsed.format.toUpperCase()}).`);
+    } catch (err) {
+      setOriginal(null);
+      setMessage(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleTranslate = () => {
+    if (!original) return;
+    onCoreAction(async charged => {
+      const run = { controller: new AbortController(), charged };
+      runRef.current = run;
+      const { signal } = run.controller;
+      setTranslated(null);
+      setMessage(null);
+      setProgress({ done: 0, total: 1 });
+      try {
+        const text = cuesOf(original).map(cue => cue.text).join('\n');
+        const fromLanguage = sourceLanguage === AUTO_DETECT_LANGUAGE
+          ? (await provider.detectLanguage(text.slice(0, 2000), { signal })).language
+          : sourceLanguage;
+        const result = await translateSubtitles(provider, original, fromLanguage, targetLanguage, {
+          formality,
+          glossary: findGlossaryTerms(glossary, text, fromLanguage, targetLanguage),
+          maxLineLength: parseLineLength(maxLineLength),
+          signal,
+        }, (done, total) => runRef.current === run && setProgress({ done, total }));
+        if (runRef.current !== run) return;
+        runRef.current = null;
+        setTranslated(result);
+        setMessage(`Translated ${cuesOf(result).length} cues from ${fromLanguage} to ${targetLanguage}.`);
+      } catch (err) {
+        if (runRef.current !== run || isAbortError(err)) return;
+        runRef.current = null;
+        if (charged) onRefund();
+        setMessage(describeError('Subtitle translation', err));
+      } finally {
+        if (runRef.current === null) setProgress(null);
+      }
+    });
+  };
+
+  const handleDownload = () => {
+    if (!translated) return;
+    const languageCode = SUPPORTED_LANGUAGES.find(lang => lang.name === targetLanguage)?.code ?? 'translated';
+    const baseName = fileName.replace(/\.(srt|vtt)$/i, '');
+    const mimeType = translated.format === 'vtt' ? 'text/vtt' : 'application/x-subrip';
+    downloadFile(serializeSubtitles(translated), `${baseName}.${languageCode}.${translated.format}`, mimeType);
+  };
+
+  const isTranslating = progress !== null;
+  const translatedCues = cuesOf(translated);
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="subtitle-title">
+      <div className="bg-paper-light dark:bg-paper-dark text-gray-800 dark:text-gray-200 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 relative space-y-6">
+          <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors" aria-label="Close subtitles">
+            <ClearIcon className="h-6 w-6" />
+          </button>
+          <div>
+            <h2 id="subtitle-title" className="text-2xl font-bold font-serif text-gray-800 dark:text-gray-100">Subtitles</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Translate an SRT or WebVTT file into {targetLanguage}. Timestamps, cue ids and styling tags are kept as they are.</p>
+          </div>
+
+          <section className="flex flex-wrap items-center gap-2">
+            <button onClick={() => fileInputRef.current?.click()} className={secondaryButtonClassName} disabled={isTranslating}>Choose .srt / .vtt</button>
+            <input ref={fileInputRef} type="file" accept=".srt,.vtt,application/x-subrip,text/vtt" className="hidden" onChange={handleFile} />
+            <label className="flex items-center gap-2 text-sm">
+              Max line length
+              <input
+                type="number"
+                min={MIN_LINE_LENGTH}
+                max={MAX_LINE_LENGTH}
+                value={maxLineLength}
+                onChange={(e) => setMaxLineLength(e.target.value)}
+                onBlur={() => setMaxLineLength(String(parseLineLength(maxLineLength)))}
+                className="w-20 p-2 text-sm bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-lg"
+                disabled={isTranslating}
+              />
+            </label>
+            <button onClick={handleTranslate} className={buttonClassName} disabled={!original || isTranslating}>
+              {isTranslating ? `Translating ${progress.done}/${progress.total}...` : 'Translate'}
+            </button>
+            <button onClick={handleDownload} className={secondaryButtonClassName} disabled={!translated}>Download</button>
+            {message && <p className="w-full text-sm text-gray-600 dark:text-gray-400" role="status">{message}</p>}
+          </section>
+
+          {original && (
+            <ol className="divide-y divide-black/10 dark:divide-white/10 text-sm max-h-96 overflow-y-auto">
+              {cuesOf(original).map((cue, index) => (
+                <li key={index} className="grid grid-cols-[auto_1fr_1fr] gap-3 py-2">
+                  <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{cue.start}</span>
+                  <span className="whitespace-pre-line">{cue.text}</span>
+                  <span className="whitespace-pre-line">{translatedCues[index]?.text}</span>
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SubtitleModal;
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import { ClearIcon } from './icons';
+import { AUTO_DETECT_LANGUAGE, SUPPORTED_LANGUAGES } from '../constants';
+import { Formality } from '../types';
+import { SpeakerTurn, TranslationProvider, isAbortError } from '../services/translationProvider';
+import { describeError } from '../services/errors';
+import { Glossary, findGlossaryTerms } from '../services/glossary';
+import { TranscriptExportFormat, exportTranscript, renameSpeaker, speakersOf, translateTranscript } from '../services/transcript';
+import { formatTimestamp } from '../services/audioSegmentation';
+import { downloadFile } from '../utils';
+
+interface TranscriptModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  turns: SpeakerTurn[];
+  /** Receives the transcript with renamed speakers. */
+  onTurnsChange: (turns: SpeakerTurn[]) => void;
+  provider: TranslationProvider;
+  sourceLanguage: string;
+  targetLanguage: string;
+  formality: Formality;
+  glossary: Glossary;
+  /** Runs the translation if the plan allows it; `charged` tells whether a credit was taken. */
+  onCoreAction: (action: (charged: boolean) => void) => void;
+  /** Gives the credit back when a charged translation fails or is cancelled. */
+  onRefund: () => void;
+}
+
+const EXPORT_FORMATS: { format: TranscriptExportFormat; label: string; mimeType: string }[] = [
+  { format: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { format: 'vtt', label: 'VTT', mimeType: 'text/vtt' },
+  { format: 'json', label: 'JSON', mimeType: 'application/json' },
+];
+
+const buttonClassName = 'px-3 py-2 text-sm font-semibold rounded-lg bg-amber-800/90 hover:bg-amber-800 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+const secondaryButtonClassName = 'px-3 py-2 text-sm font-medium rounded-lg border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+const TranscriptModal: React.FC<TranscriptModalProps> = ({ isOpen, onClose, turns, onTurnsChange, provider, sourceLanguage, targetLanguage, formality, glossary, onCoreAction, onRefund }) => {
+  const [translations, setTranslations] = useState<string[] | null>(null);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const runRef = useRef<{ controller: AbortController; charged: boolean } | null>(null);
+
+  const cancelRun = useCallback(() => {
+    const run = runRef.current;
+    if (!run) return;
+    runRef.current = null;
+    run.controller.abort();
+    if (run.charged) onRefund();
+  }, [onRefund]);
+
+  // A new recording (not a rename) makes the translation stale.
+  const textsKey = JSON.stringify(turns.map(turn => turn.text));
+  useEffect(() => {
+    cancelRun();
+    setProgress(null);
+    setTranslations(null);
+    setMessage(null);
+  }, [textsKey, cancelRun]);
+
+  const handleClose = useCallback(() => {
+    cancelRun();
+    setProgress(null);
+    onClose();
+  }, [cancelRun, onClose]);
+
+  const handleEscKey = useCallback((event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      handleClose();
+    }
+  }, [handleClose]);
+
+  useEffect(() => {
+    if (isOpen) {
+      document.addEventListener('keydown', handleEscKey);
+    }
+    return () => {
+      document.removeEventListener('keydown', handleEscKey);
+    };
+  }, [isOpen, handleEscKey]);
+
+  if (!isOpen) return null;
+
+  const handleTranslate = () => {
+    onCoreAction(async charged => {
+      const run = { controller: new AbortController(), charged };
+      runRef.current = run;
+      const { signal } = run.controller;
+      setTranslations(null);
+      setMessage(null);
+      setProgress({ done: 0, total: 1 });
+      try {
+        const text = turns.map(turn => turn.text).join('\n');
+        const fromLanguage = sourceLanguage === AUTO_DETECT_LANGUAGE
+          ? (await provider.detectLanguage(text.slice(0, 2000), { signal })).language
+          : sourceLanguage;
+        const result = await translateTranscript(provider, turns, fromLanguage, targetLanguage, {
+          formality,
+          glossary: findGlossaryTerms(glossary, text, fromLanguage, targetLanguage),
+          signal,
+        }, (done, total) => runRef.current === run && setProgress({ done, total }));
+        if (runRef.current !== run) return;
+        runRef.current = null;
+        setTranslations(result);
+        setMessage(`Translated ${result.length} turns from ${fromLanguage} to ${targetLanguage}.`);
+      } catch (err) {
+        if (runRef.current !== run || isAbortError(err)) return;
+        runRef.current = null;
+        if (charged) onRefund();
+        setMessage(describeError('Transcript translation', err));
+      } finally {
+        if (runRef.current === null) setProgress(null);
+      }
+    });
+  };
+
+  const handleExport = (format: TranscriptExportFormat, translated: boolean) => {
+    const { mimeType } = EXPORT_FORMATS.find(option => option.format === format)!;
+    const languageCode = SUPPORTED_LANGUAGES.find(lang => lang.name === targetLanguage)?.code ?? 'translated';
+    const fileName = translated ? `transcript.${languageCode}.${format}` : `transcript.${format}`;
+    downloadFile(exportTranscript(turns, format, translated ? translations ?? undefined : undefined), fileName, mimeType);
+  };
+
+  const handleRename = (from: string, input: HTMLInputElement) => {
+    const renamed = renameSpeaker(turns, from, input.value);
+    if (renamed !== turns) onTurnsChange(renamed);
+    else input.value = from;
+  };
+
+  const isTranslating = progress !== null;
+  const speakers = speakersOf(turns);
+
+  return (
+    <div className="fixed inset-0 bg-gray-900 bg-opacity-75 flex items-center justify-center z-50 p-4" role="dialog" aria-modal="true" aria-labelledby="transcript-title">
+      <div className="bg-paper-light dark:bg-paper-dark text-gray-800 dark:text-gray-200 rounded-2xl shadow-2xl w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+        <div className="p-6 relative space-y-6">
+          <button onClick={handleClose} className="absolute top-4 right-4 text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 transition-colors" aria-label="Close transcript">
+            <ClearIcon className="h-6 w-6" />
+          </button>
+          <div>
+            <h2 id="transcript-title" className="text-2xl font-bold font-serif text-gray-800 dark:text-gray-100">Transcript</h2>
+            <p className="text-sm text-gray-600 dark:text-gray-400">Name the speakers, then export the transcript as captions or JSON, as recorded or translated into {targetLanguage}.</p>
+          </div>
+
+          <section>
+            <h3 className="text-lg font-semibold font-serif mb-2">Speakers</h3>
+            <div className="flex flex-wrap gap-2">
+              {speakers.map(speaker => (
+                <input
+                  key={speaker}
+                  type="text"
+                  defaultValue={speaker}
+                  onBlur={(e) => handleRename(speaker, e.target)}
+                  onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                  className="w-40 p-2 text-sm bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-lg"
+                  aria-label={`Rename ${speaker}`}
+                />
+              ))}
+            </div>
+          </section>
+
+          <section className="flex flex-wrap items-center gap-2">
+            <button onClick={handleTranslate} className={buttonClassName} disabled={isTranslating}>
+              {isTranslating ? `Translating ${progress.done}/${progress.total}...` : `Translate to ${targetLanguage}`}
+            </button>
+            <span className="text-sm text-gray-600 dark:text-gray-400 ml-2">Original:</span>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button key={format} onClick={() => handleExport(format, false)} className={secondaryButtonClassName}>{label}</button>
+            ))}
+            <span className="text-sm text-gray-600 dark:text-gray-400 ml-2">Translated:</span>
+            {EXPORT_FORMATS.map(({ format, label }) => (
+              <button key={format} onClick={() => handleExport(format, true)} className={secondaryButtonClassName} disabled={!translations}>{label}</button>
+            ))}
+            {message && <p className="w-full text-sm text-gray-600 dark:text-gray-400" role="status">{message}</p>}
+          </section>
+
+          <ol className="divide-y divide-black/10 dark:divide-white/10 text-sm max-h-96 overflow-y-auto">
+            {turns.map((turn, index) => (
+              <li key={index} className="grid grid-cols-[auto_minmax(0,8rem)_1fr_1fr] gap-3 py-2">
+                <span className="text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">{formatTimestamp(turn.start)}</span>
+                <span className="font-semibold truncate" title={turn.speaker}>{turn.speaker}</span>
+                <span className="whitespace-pre-line">{turn.text}</span>
+                <span className="whitespace-pre-line">{translations?.[index]}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TranscriptModal;
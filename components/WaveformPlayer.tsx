@@ -0,0 +1,194 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { PLAYBACK_REPEAT_COUNTS } from '../constants';
+import { StopIcon } from './icons';
+
+/** A section of the audio to repeat, in seconds. */
+export interface LoopRegion {
+  start: number;
+  end: number;
+}
+
+interface WaveformPlayerProps {
+  /** The audio as raw 16-bit mono PCM. */
+  pcm: Uint8Array;
+  sampleRate: number;
+  /** The element the audio plays in; its position is read every frame for the playhead. */
+  audioRef: React.RefObject<HTMLAudioElement | null>;
+  /** Whether playback is under way, playing or paused. */
+  isPlaying: boolean;
+  loop: LoopRegion | null;
+  onLoopChange: (loop: LoopRegion | null) => void;
+  repeatCount: number;
+  onRepeatCountChange: (count: number) => void;
+  /** Plays from a position in seconds, or jumps there if playback is under way. */
+  onSeek: (time: number) => void;
+  onStop: () => void;
+}
+
+const CANVAS_WIDTH = 500;
+const CANVAS_HEIGHT = 64;
+// Shorter drags are treated as clicks rather than loop selections.
+const MIN_LOOP_SECONDS = 0.1;
+
+// The loudest sample in each column of the canvas, from 0 to 1.
+const computePeaks = (pcm: Uint8Array, columns: number): Float32Array => {
+  const samples = new Int16Array(pcm.buffer, pcm.byteOffset, Math.floor(pcm.byteLength / 2));
+  const peaks = new Float32Array(columns);
+  const perColumn = samples.length / columns;
+  for (let column = 0; column < columns; column++) {
+    let peak = 0;
+    const end = Math.min(samples.length, Math.floor((column + 1) * perColumn));
+    for (let i = Math.floor(column * perColumn); i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks[column] = peak / 32768;
+  }
+  return peaks;
+};
+
+const formatTime = (seconds: number) => `${Math.floor(seconds / 60)}:${Math.floor(seconds % 60).toString().padStart(2, '0')}.${Math.floor((seconds % 1) * 10)}`;
+
+// Drag state: scrubbing the playhead, or selecting a loop with Shift held.
+type Drag = { kind: 'scrub'; time: number } | { kind: 'loop'; anchor: number; time: number };
+
+const WaveformPlayer: React.FC<WaveformPlayerProps> = ({ pcm, sampleRate, audioRef, isPlaying, loop, onLoopChange, repeatCount, onRepeatCountChange, onSeek, onStop }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [drag, setDrag] = useState<Drag | null>(null);
+  const duration = pcm.byteLength / 2 / sampleRate;
+  const peaks = useMemo(() => computePeaks(pcm, CANVAS_WIDTH), [pcm]);
+
+  const position = useCallback(() => (isPlaying ? audioRef.current?.currentTime ?? 0 : 0), [isPlaying, audioRef]);
+
+  const draw = useCallback(() => {
+    const canvas = canvasRef.current;
+    const canvasCtx = canvas?.getContext('2d');
+    if (!canvas || !canvasCtx) return;
+    const toX = (time: number) => (time / duration) * canvas.width;
+    const playhead = drag?.kind === 'scrub' ? drag.time : position();
+
+    const isDarkMode = window.matchMedia && window.matchMedia('(prefers-color-scheme: dark)').matches;
+    canvasCtx.fillStyle = isDarkMode ? '#374151' : '#FDFBF7'; // paper-dark or paper-light
+    canvasCtx.fillRect(0, 0, canvas.width, canvas.height);
+
+    const region = drag?.kind === 'loop' ? { start: Math.min(drag.anchor, drag.time), end: Math.max(drag.anchor, drag.time) } : loop;
+    if (region) {
+      canvasCtx.fillStyle = 'rgb(180 83 9 / 0.25)'; // amber-700
+      canvasCtx.fillRect(toX(region.start), 0, toX(region.end) - toX(region.start), canvas.height);
+    }
+
+    // Played columns in blue, the rest in gray.
+    const middle = canvas.height / 2;
+    for (let x = 0; x < peaks.length; x++) {
+      const height = Math.max(1, peaks[x] * middle);
+      canvasCtx.fillStyle = x < toX(playhead) ? 'rgb(59 130 246)' : 'rgb(156 163 175)'; // blue-500 or gray-400
+      canvasCtx.fillRect(x, middle - height, 1, height * 2);
+    }
+
+    if (isPlaying || drag?.kind === 'scrub') {
+      canvasCtx.fillStyle = 'rgb(239 68 68)'; // red-500
+      canvasCtx.fillRect(toX(playhead) - 1, 0, 2, canvas.height);
+    }
+
+    canvasCtx.font = '12px sans-serif';
+    canvasCtx.textAlign = 'right';
+    canvasCtx.fillStyle = isDarkMode ? '#D1D5DB' : '#4B5563'; // gray-300 or gray-600
+    canvasCtx.fillText(`${formatTime(playhead)} / ${formatTime(duration)}`, canvas.width - 4, 14);
+  }, [drag, duration, isPlaying, loop, peaks, position]);
+
+  // Redrawn every frame during playback, and whenever the loop or drag changes otherwise.
+  useEffect(() => {
+    draw();
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      draw();
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [draw, isPlaying]);
+
+  // Without a single sample there is no timeline to draw or seek in.
+  if (pcm.byteLength < 2) return null;
+
+  const timeAt = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return Math.min(duration, Math.max(0, ((e.clientX - rect.left) / rect.width) * duration));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const time = timeAt(e);
+    setDrag(e.shiftKey ? { kind: 'loop', anchor: time, time } : { kind: 'scrub', time });
+    if (!e.shiftKey && isPlaying) onSeek(time);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) return;
+    const time = timeAt(e);
+    setDrag({ ...drag, time });
+    if (drag.kind === 'scrub' && isPlaying) onSeek(time);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drag) return;
+    const time = timeAt(e);
+    setDrag(null);
+    if (drag.kind === 'scrub') {
+      onSeek(time);
+    } else if (Math.abs(time - drag.anchor) >= MIN_LOOP_SECONDS) {
+      onLoopChange({ start: Math.min(drag.anchor, time), end: Math.max(drag.anchor, time) });
+    }
+  };
+
+  // Marks one end of the loop at the playhead, keeping the other end (or the clip's start or end).
+  const handleSetLoopStart = () => {
+    const start = position();
+    onLoopChange({ start, end: Math.max(loop?.end ?? duration, Math.min(duration, start + MIN_LOOP_SECONDS)) });
+  };
+  const handleSetLoopEnd = () => {
+    const end = position();
+    onLoopChange({ start: Math.min(loop?.start ?? 0, Math.max(0, end - MIN_LOOP_SECONDS)), end });
+  };
+
+  const buttonClassName = 'px-2 py-1 text-xs font-medium rounded-md border border-black/20 dark:border-white/20 hover:bg-black/10 dark:hover:bg-white/10 disabled:opacity-50 disabled:cursor-not-allowed transition-colors';
+
+  return (
+    <div className="space-y-2 whitespace-normal">
+      <canvas
+        ref={canvasRef}
+        className="w-full h-16 rounded-lg cursor-pointer touch-none"
+        width={CANVAS_WIDTH}
+        height={CANVAS_HEIGHT}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => setDrag(null)}
+        title="Click or drag to seek; Shift-drag to mark a section to repeat"
+      ></canvas>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <button onClick={onStop} disabled={!isPlaying} className={buttonClassName} aria-label="Stop playback">
+          <StopIcon className="h-3.5 w-3.5" />
+        </button>
+        <button onClick={handleSetLoopStart} disabled={!isPlaying} className={buttonClassName} title="Start the repeated section at the playhead">Set A</button>
+        <button onClick={handleSetLoopEnd} disabled={!isPlaying} className={buttonClassName} title="End the repeated section at the playhead">Set B</button>
+        {loop && (
+          <>
+            <span className="text-xs text-gray-500 dark:text-gray-400">
+              Loop {formatTime(loop.start)}–{formatTime(loop.end)}
+            </span>
+            <button onClick={() => onLoopChange(null)} className={buttonClassName}>Clear loop</button>
+          </>
+        )}
+        <select
+          value={repeatCount}
+          onChange={(e) => onRepeatCountChange(Number(e.target.value))}
+          className="ml-auto p-1 text-xs bg-black/5 dark:bg-white/5 border border-black/20 dark:border-white/20 rounded-md"
+          aria-label="How many times to play"
+        >
+          {PLAYBACK_REPEAT_COUNTS.map(count => <option key={count} value={count}>{count === 1 ? 'Play once' : `Play ${count}×`}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default WaveformPlayer;
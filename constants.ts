@@ -1,8 +1,9 @@
-import { Language, Voice } from './types';
+import { AudioExportFormat, AudioExportFormatInfo, Formality, FormalityLevel, Language, PhoneticScheme, PhoneticSchemeInfo, Voice } from './types';
 
 export const SUPPORTED_LANGUAGES: Language[] = [
   { name: 'Afrikaans', code: 'af' },
   { name: 'Arabic', code: 'ar' },
+  { name: 'Assamese', code: 'as' },
   { name: 'Bengali', code: 'bn' },
   { name: 'Bulgarian', code: 'bg' },
   { name: 'Chinese (Simplified)', code: 'zh-CN' },
@@ -52,9 +53,75 @@ export const SUPPORTED_VOICES: (Voice & { premium?: boolean })[] = [
     { name: 'Storm (Energetic Male)', code: 'Fenrir', premium: true },
 ];
 
+export const PHONETIC_SCHEMES: PhoneticSchemeInfo[] = [
+    { id: 'simple', name: 'Simple guide' },
+    { id: 'ipa', name: 'IPA' },
+    { id: 'iso15919', name: 'ISO 15919', languages: ['Assamese', 'Bengali', 'Hindi'] },
+    { id: 'pinyin', name: 'Pinyin', languages: ['Chinese (Simplified)', 'Chinese (Traditional)'] },
+    { id: 'hepburn', name: 'Hepburn', languages: ['Japanese'] },
+];
+
+export const FORMALITY_LEVELS: FormalityLevel[] = [
+    { id: 'formal', name: 'Formal', description: 'a formal, polite register suitable for business correspondence' },
+    { id: 'neutral', name: 'Neutral', description: 'a neutral, standard register' },
+    { id: 'casual', name: 'Casual', description: 'a casual, conversational register, as in a chat with a friend or colleague' },
+    { id: 'intimate', name: 'Intimate', description: 'an intimate, familiar register, as between close friends or family' },
+];
+
+// How to address the reader at each level, for languages that grammatically mark formality.
+export const PRONOUN_HINTS: Record<string, Record<Formality, string>> = {
+    Bengali: { formal: 'আপনি', neutral: 'আপনি', casual: 'তুমি', intimate: 'তুই' },
+    Assamese: { formal: 'আপুনি', neutral: 'আপুনি', casual: 'তুমি', intimate: 'তই' },
+    Hindi: { formal: 'आप', neutral: 'आप', casual: 'तुम', intimate: 'तू' },
+    French: { formal: 'vous', neutral: 'vous', casual: 'tu', intimate: 'tu' },
+    German: { formal: 'Sie', neutral: 'Sie', casual: 'du', intimate: 'du' },
+    Spanish: { formal: 'usted', neutral: 'usted', casual: 'tú', intimate: 'tú' },
+    Italian: { formal: 'Lei', neutral: 'Lei', casual: 'tu', intimate: 'tu' },
+    Portuguese: { formal: 'o senhor / a senhora', neutral: 'você', casual: 'você', intimate: 'tu' },
+    Russian: { formal: 'вы', neutral: 'вы', casual: 'ты', intimate: 'ты' },
+    Ukrainian: { formal: 'ви', neutral: 'ви', casual: 'ти', intimate: 'ти' },
+    Dutch: { formal: 'u', neutral: 'u', casual: 'je', intimate: 'jij' },
+    Turkish: { formal: 'siz', neutral: 'siz', casual: 'sen', intimate: 'sen' },
+    Japanese: { formal: '敬語 (keigo)', neutral: 'です/ます', casual: 'plain form', intimate: 'plain form' },
+    Korean: { formal: '합쇼체', neutral: '해요체', casual: '반말', intimate: '반말' },
+};
+
 export const DEFAULT_VOICE = 'Kore';
 export const DEFAULT_SOURCE_LANGUAGE = 'Bengali';
+// Source language value that asks the app to detect the language itself.
+export const AUTO_DETECT_LANGUAGE = 'auto';
 export const DEFAULT_TARGET_LANGUAGE = 'English';
+export const DEFAULT_PHONETIC_SCHEME: PhoneticScheme = 'simple';
+export const DEFAULT_FORMALITY: Formality = 'neutral';
+
+// Longest text sent in one translation or speech request; longer input is split at sentence boundaries.
+export const TRANSLATION_CHUNK_LENGTH = 1500;
+export const SPEECH_CHUNK_LENGTH = 600;
+
+// Silence after speech that ends a recording on its own; 0 leaves stopping to the user.
+export const AUTO_STOP_OPTIONS: { silenceMs: number; label: string }[] = [
+  { silenceMs: 0, label: 'Off' },
+  { silenceMs: 1500, label: '1.5 s' },
+  { silenceMs: 3000, label: '3 s' },
+  { silenceMs: 5000, label: '5 s' },
+];
+export const DEFAULT_AUTO_STOP_SILENCE_MS = 3000;
+// Recordings are cut off here; three minutes of trimmed 16 kHz WAV stays under the proxy's upload cap.
+export const MAX_RECORDING_SECONDS = 180;
+
+export const AUDIO_EXPORT_FORMATS: AudioExportFormatInfo[] = [
+    { id: 'wav', name: 'WAV', extension: 'wav', mimeType: 'audio/wav' },
+    { id: 'mp3', name: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg' },
+    { id: 'webm', name: 'Opus (WebM)', extension: 'webm', mimeType: 'audio/webm' },
+];
+export const DEFAULT_AUDIO_EXPORT_FORMAT: AudioExportFormat = 'wav';
+// Speech is generated at 24 kHz; the higher rates suit video editors and players that expect them.
+export const EXPORT_SAMPLE_RATES = [24000, 44100, 48000];
+// Placeholders: {text} (start of the translation), {source}, {target} (language codes), {date}, {time}.
+export const DEFAULT_AUDIO_FILENAME_TEMPLATE = 'translation_{target}_{date}_{time}';
+
+// How many times the translation (or the marked A-B section of it) is played, for pronunciation drills.
+export const PLAYBACK_REPEAT_COUNTS = [1, 2, 3, 5, 10];
 
 export const FREE_TRANSLATION_LIMIT = 5;
 export const PREMIUM_TRANSLATION_LIMIT = 50;
@@ -2,6 +2,8 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { createDefaultProvider } from './services/providerFactory';
+import { createTranslationCache } from './services/translationCache';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +13,6 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <App provider={createDefaultProvider()} cache={createTranslationCache()} />
   </React.StrictMode>
 );
@@ -0,0 +1,250 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createProxyServer, ProxyServerOptions } from './app';
+import { createMockProvider } from '../services/mockProvider';
+import { TranslationError, TranslationErrorKind } from '../services/errors';
+
+// Starts a proxy on a free port and returns its base URL.
+const listen = async (server: http.Server): Promise<string> => {
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+const close = (server: http.Server) => new Promise<void>(resolve => server.close(() => resolve()));
+
+const startProxy = async (options: Partial<ProxyServerOptions> = {}) => {
+    const server = createProxyServer({ provider: createMockProvider({ latencyMs: 0 }), ...options });
+    return { server, baseUrl: await listen(server) };
+};
+
+const post = (url: string, body: unknown) => fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+});
+
+// Sends a body in chunks without a Content-Length header, so only the streamed byte count can catch it.
+const postChunked = (url: string, chunks: string[]) => new Promise<number>((resolve, reject) => {
+    const req = http.request(url, { method: 'POST', headers: { 'Content-Type': 'application/json' } }, res => {
+        res.resume();
+        resolve(res.statusCode ?? 0);
+    });
+    req.on('error', reject);
+    chunks.forEach(chunk => req.write(chunk));
+    req.end();
+});
+
+const readLines = async (response: Response) => (await response.text()).trim().split('\n').map(line => JSON.parse(line));
+
+const AUDIO = Buffer.from('not really audio').toString('base64');
+
+describe('createProxyServer routes', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+        ({ server, baseUrl } = await startProxy({ rateLimit: { capacity: 1000, refillPerMinute: 1000 } }));
+    });
+
+    afterAll(() => close(server));
+
+    it('detects the language of text and of a recording', async () => {
+        expect(await (await post(`${baseUrl}/api/detect-language`, { text: 'আমি তোমাকে ভালোবাসি' })).json()).toEqual({ language: 'Bengali', confidence: 0.95 });
+        expect(await (await post(`${baseUrl}/api/detect-language`, { audio: AUDIO, mimeType: 'audio/webm' })).json()).toEqual({ language: 'Bengali', confidence: 0.9 });
+    });
+
+    it('transcribes a recording', async () => {
+        const response = await post(`${baseUrl}/api/transcribe`, { audio: AUDIO, sourceLanguage: 'Hindi' });
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ text: 'मैं तुमसे प्यार करता हूँ' });
+    });
+
+    it('transcribes a recording into speaker turns', async () => {
+        const { turns } = await (await post(`${baseUrl}/api/transcribe-speakers`, { audio: AUDIO, sourceLanguage: 'English' })).json();
+        expect(turns).toEqual([
+            { start: 0, end: 1.5, speaker: 'Speaker 1', text: 'I love' },
+            { start: 1.5, end: 3, speaker: 'Speaker 2', text: 'you' },
+        ]);
+    });
+
+    it('streams a translation as newline-delimited JSON', async () => {
+        const response = await post(`${baseUrl}/api/translate`, { text: 'Good morning', sourceLanguage: 'English', targetLanguage: 'Bengali', formality: 'formal' });
+        expect(response.headers.get('content-type')).toMatch(/^application\/x-ndjson/);
+        expect(await readLines(response)).toEqual([
+            { partial: '[Bengali,' },
+            { partial: '[Bengali, formal]' },
+            { partial: '[Bengali, formal] Good' },
+            { partial: '[Bengali, formal] Good morning' },
+            { text: '[Bengali, formal] Good morning' },
+        ]);
+    });
+
+    it('streams the translation before the phonetic guide', async () => {
+        const response = await post(`${baseUrl}/api/translate-with-phonetics`, { text: 'Hello', sourceLanguage: 'English', targetLanguage: 'French', includeRomanization: true });
+        const lines = await readLines(response);
+        expect(lines.at(-2)).toEqual({ translation: '[French] Hello' });
+        expect(lines.at(-1)).toEqual({ result: { translation: '[French] Hello', phonetic: expect.any(String), romanization: '[French] Hello' } });
+    });
+
+    it('translates segments with the glossary applied', async () => {
+        const response = await post(`${baseUrl}/api/translate-segments`, {
+            segments: ['Hello Rahim', 'Bye'],
+            sourceLanguage: 'English',
+            targetLanguage: 'Bengali',
+            glossary: [{ source: 'Rahim', target: 'রহিম' }],
+            maxLineLength: 42,
+        });
+        expect(await response.json()).toEqual({ translations: ['[Bengali] Hello রহিম', '[Bengali] Bye'] });
+    });
+
+    it('returns alternatives, phonetics and speech', async () => {
+        const { alternatives } = await (await post(`${baseUrl}/api/alternatives`, { text: 'Hi', sourceLanguage: 'English', targetLanguage: 'Hindi' })).json();
+        expect(alternatives).toHaveLength(3);
+        expect(alternatives[0].translation).toBe('[Hindi] Hi');
+
+        expect(await (await post(`${baseUrl}/api/phonetic`, { text: 'hello', language: 'English' })).json()).toEqual({ text: 'he-llo' });
+
+        const { audio } = await (await post(`${baseUrl}/api/tts`, { text: 'one two', language: 'English', voiceName: 'Kore' })).json();
+        // Two words of 0.35 s each at 24 kHz, 16-bit.
+        expect(Buffer.from(audio, 'base64').length).toBe(2 * 8400 * 2);
+    });
+
+    it('rejects unknown paths, other methods and invalid fields', async () => {
+        expect((await post(`${baseUrl}/api/nothing`, {})).status).toBe(404);
+
+        const get = await fetch(`${baseUrl}/api/translate`);
+        expect(get.status).toBe(405);
+        expect(get.headers.get('allow')).toBe('POST');
+
+        const missing = await post(`${baseUrl}/api/translate`, { text: 'Hi', sourceLanguage: 'English' });
+        expect(missing.status).toBe(400);
+        expect(await missing.json()).toEqual({ error: 'Missing or invalid "targetLanguage" field.' });
+
+        expect((await post(`${baseUrl}/api/translate`, { text: 'Hi', sourceLanguage: 'English', targetLanguage: 'Bengali', formality: 'rude' })).status).toBe(400);
+        expect((await post(`${baseUrl}/api/translate`, { text: 'Hi', sourceLanguage: 'English', targetLanguage: 'Bengali', glossary: [{ source: 'Hi' }] })).status).toBe(400);
+        expect((await post(`${baseUrl}/api/translate-segments`, { segments: [], sourceLanguage: 'English', targetLanguage: 'Bengali' })).status).toBe(400);
+        expect((await fetch(`${baseUrl}/api/translate`, { method: 'POST', body: '[1, 2]' })).status).toBe(400);
+    });
+
+    it('maps provider errors to a status and kind', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const response = await post(`${baseUrl}/api/translate`, { text: '#error:safety', sourceLanguage: 'English', targetLanguage: 'Bengali' });
+        expect(response.status).toBe(422);
+        expect(await response.json()).toEqual({ error: 'Simulated safety error.', kind: 'safety' });
+        vi.restoreAllMocks();
+    });
+
+    it('answers simulated errors of an unknown kind instead of hanging', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const response = await post(`${baseUrl}/api/translate-segments`, { segments: ['#error:foo'], sourceLanguage: 'English', targetLanguage: 'Bengali' });
+        expect(response.status).toBe(502);
+        expect(await response.json()).toEqual({ error: 'Simulated foo error.', kind: 'unknown' });
+        vi.restoreAllMocks();
+    });
+});
+
+describe('createProxyServer provider failures', () => {
+    // The mock with one method swapped out, to fail in ways the mock itself never does.
+    const startFailingProxy = (overrides: Partial<ReturnType<typeof createMockProvider>>) =>
+        startProxy({ provider: { ...createMockProvider({ latencyMs: 0 }), ...overrides } });
+
+    it('answers 500 for an error kind it has no status for', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { server, baseUrl } = await startFailingProxy({
+            translateSegments: async () => {
+                throw new TranslationError('bogus' as TranslationErrorKind, 'Bad kind.');
+            },
+        });
+        try {
+            const response = await post(`${baseUrl}/api/translate-segments`, { segments: ['Hi'], sourceLanguage: 'English', targetLanguage: 'Bengali' });
+            expect(response.status).toBe(500);
+            expect(await response.json()).toEqual({ error: 'Bad kind.', kind: 'bogus' });
+        } finally {
+            await close(server);
+            vi.restoreAllMocks();
+        }
+    });
+
+    it('ends a stream that fails midway with an error line', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        const { server, baseUrl } = await startFailingProxy({
+            translateText: async (_text, _sourceLanguage, _targetLanguage, options = {}) => {
+                options.onPartial?.('[Bengali] Half');
+                throw new TranslationError('network', 'Connection lost.');
+            },
+        });
+        try {
+            const response = await post(`${baseUrl}/api/translate`, { text: 'Half done', sourceLanguage: 'English', targetLanguage: 'Bengali' });
+            expect(response.status).toBe(200);
+            expect(await readLines(response)).toEqual([
+                { partial: '[Bengali] Half' },
+                { error: 'Connection lost.', kind: 'network' },
+            ]);
+        } finally {
+            await close(server);
+            vi.restoreAllMocks();
+        }
+    });
+});
+
+describe('createProxyServer limits', () => {
+    it('answers 429 with Retry-After once a client has used up its tokens', async () => {
+        const { server, baseUrl } = await startProxy({ rateLimit: { capacity: 2, refillPerMinute: 1 } });
+        try {
+            const body = { text: 'Hi', language: 'English' };
+            expect((await post(`${baseUrl}/api/phonetic`, body)).status).toBe(200);
+            expect((await post(`${baseUrl}/api/phonetic`, body)).status).toBe(200);
+
+            const limited = await post(`${baseUrl}/api/phonetic`, body);
+            expect(limited.status).toBe(429);
+            expect(Number(limited.headers.get('retry-after'))).toBeGreaterThan(0);
+            expect(await limited.json()).toEqual({ error: 'Too many requests.', kind: 'rate-limit' });
+        } finally {
+            await close(server);
+        }
+    });
+
+    it('keeps a bucket per forwarded client only when trusting the proxy', async () => {
+        const { server, baseUrl } = await startProxy({ rateLimit: { capacity: 1, refillPerMinute: 1 }, trustProxy: true });
+        try {
+            const postAs = (client: string) => fetch(`${baseUrl}/api/phonetic`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', 'X-Forwarded-For': `${client}, 10.0.0.1` },
+                body: JSON.stringify({ text: 'Hi', language: 'English' }),
+            });
+            expect((await postAs('203.0.113.1')).status).toBe(200);
+            expect((await postAs('203.0.113.2')).status).toBe(200);
+            expect((await postAs('203.0.113.1')).status).toBe(429);
+        } finally {
+            await close(server);
+        }
+    });
+
+    it('answers 413 for bodies over the cap of their route kind', async () => {
+        const { server, baseUrl } = await startProxy({ maxBodyBytes: { text: 200, audio: 2000 } });
+        try {
+            const text = 'a'.repeat(300);
+            const tooLarge = await post(`${baseUrl}/api/translate`, { text, sourceLanguage: 'English', targetLanguage: 'Bengali' });
+            expect(tooLarge.status).toBe(413);
+            expect(await tooLarge.json()).toEqual({ error: 'Request body exceeds 200 bytes.' });
+
+            // The same size is fine for an audio route.
+            expect((await post(`${baseUrl}/api/transcribe`, { audio: text, sourceLanguage: 'English' })).status).toBe(200);
+            expect((await post(`${baseUrl}/api/transcribe`, { audio: 'a'.repeat(3000), sourceLanguage: 'English' })).status).toBe(413);
+        } finally {
+            await close(server);
+        }
+    });
+
+    it('answers 413 for chunked bodies without a Content-Length', async () => {
+        const { server, baseUrl } = await startProxy({ maxBodyBytes: { text: 200, audio: 2000 } });
+        try {
+            const url = `${baseUrl}/api/phonetic`;
+            expect(await postChunked(url, ['{"text": "Hi", ', '"language": "English"}'])).toBe(200);
+            expect(await postChunked(url, ['{"text": "', 'a'.repeat(150), 'a'.repeat(150), '", "language": "English"}'])).toBe(413);
+        } finally {
+            await close(server);
+        }
+    });
+});
@@ -0,0 +1,356 @@
+import http from 'node:http';
+import { FORMALITY_LEVELS, PHONETIC_SCHEMES } from '../constants';
+import { GlossaryTerm } from '../types';
+import { TranslationContext, TranslationProvider } from '../services/translationProvider';
+import { TranslationError, TranslationErrorKind, classifyError } from '../services/errors';
+import { createRateLimiter, RateLimitOptions } from './rateLimiter';
+
+export interface ProxyServerOptions {
+    provider: TranslationProvider;
+    rateLimit?: RateLimitOptions;
+    /** Body size caps in bytes; audio uploads are allowed to be much larger than text requests. */
+    maxBodyBytes?: { text: number; audio: number };
+    /** Use the first X-Forwarded-For address as the client id (only enable behind a trusted proxy). */
+    trustProxy?: boolean;
+}
+
+type JsonBody = Record<string, unknown>;
+
+interface RouteContext {
+    provider: TranslationProvider;
+    /** Fires when the client disconnects, so abandoned upstream calls can be cancelled. */
+    signal: AbortSignal;
+    /** Pushes an intermediate message on streaming routes; a no-op elsewhere. */
+    emit: (message: unknown) => void;
+}
+
+interface Route {
+    kind: 'text' | 'audio';
+    /**
+     * Produces the response payload. Streaming routes push intermediate messages
+     * through `emit` and the server sends them as newline-delimited JSON.
+     */
+    handle: (body: JsonBody, context: RouteContext) => Promise<unknown>;
+    stream?: boolean;
+}
+
+class HttpError extends Error {
+    status: number;
+
+    constructor(status: number, message: string) {
+        super(message);
+        this.status = status;
+    }
+}
+
+// HTTP status the proxy answers with for each kind of upstream failure.
+const STATUS_BY_KIND: Record<TranslationErrorKind, number> = {
+    'rate-limit': 429,
+    'quota': 429,
+    'safety': 422,
+    'empty-response': 502,
+    'network': 503,
+    'invalid-audio': 422,
+    'auth': 502,
+    'unknown': 502,
+};
+
+// Serializes an upstream failure so the browser can rebuild the typed error.
+const toErrorPayload = (err: unknown) => {
+    const error = classifyError(err);
+    if (error instanceof TranslationError) return { error: error.message, kind: error.kind };
+    return { error: 'Upstream request failed.', kind: 'unknown' as const };
+};
+
+const DEFAULT_RATE_LIMIT: RateLimitOptions = { capacity: 20, refillPerMinute: 30 };
+const DEFAULT_MAX_BODY_BYTES = { text: 32 * 1024, audio: 10 * 1024 * 1024 };
+const MAX_GLOSSARY_TERMS = 200;
+const MAX_CONTEXT_LENGTH = 1000;
+const MAX_SEGMENTS = 100;
+
+const requireString = (body: JsonBody, field: string): string => {
+    const value = body[field];
+    if (typeof value !== 'string' || !value.trim()) {
+        throw new HttpError(400, `Missing or invalid "${field}" field.`);
+    }
+    return value;
+};
+
+// Reads an optional setting id (e.g. a phonetic scheme), rejecting ones the app doesn't know.
+const readOptionalId = <T extends string>(body: JsonBody, field: string, known: { id: T }[]): T | undefined => {
+    const value = body[field];
+    if (value === undefined) return undefined;
+    const match = known.find(({ id }) => id === value);
+    if (!match) throw new HttpError(400, `Unknown value in "${field}".`);
+    return match.id;
+};
+
+// Reads the optional "glossary" field: a bounded list of { source, target } string pairs.
+const readGlossary = (body: JsonBody): GlossaryTerm[] | undefined => {
+    const value = body.glossary;
+    if (value === undefined) return undefined;
+    const isTerm = (term: unknown): term is GlossaryTerm =>
+        typeof (term as GlossaryTerm)?.source === 'string' && typeof (term as GlossaryTerm)?.target === 'string';
+    if (!Array.isArray(value) || value.length > MAX_GLOSSARY_TERMS || !value.every(isTerm)) {
+        throw new HttpError(400, `"glossary" must be a list of at most ${MAX_GLOSSARY_TERMS} { source, target } terms.`);
+    }
+    return value.map(({ source, target }) => ({ source, target }));
+};
+
+// Reads the optional "context" field: { before?, after? } snippets of neighbouring text.
+const readContext = (body: JsonBody): TranslationContext | undefined => {
+    const value = body.context;
+    if (value === undefined) return undefined;
+    const { before, after } = (value ?? {}) as Record<string, unknown>;
+    const isSnippet = (snippet: unknown) => snippet === undefined || (typeof snippet === 'string' && snippet.length <= MAX_CONTEXT_LENGTH);
+    if (typeof value !== 'object' || value === null || Array.isArray(value) || !isSnippet(before) || !isSnippet(after)) {
+        throw new HttpError(400, `"context" must be { before, after } with strings of at most ${MAX_CONTEXT_LENGTH} characters.`);
+    }
+    return { before: before as string | undefined, after: after as string | undefined };
+};
+
+// Reads the "segments" field: a non-empty, bounded list of strings.
+const readSegments = (body: JsonBody): string[] => {
+    const value = body.segments;
+    if (!Array.isArray(value) || value.length === 0 || value.length > MAX_SEGMENTS || !value.every(segment => typeof segment === 'string')) {
+        throw new HttpError(400, `"segments" must be a list of 1 to ${MAX_SEGMENTS} strings.`);
+    }
+    return value;
+};
+
+// Rebuilds the uploaded recording from its base64 "audio" and "mimeType" fields.
+const readAudio = (body: JsonBody): Blob => {
+    const audio = Buffer.from(requireString(body, 'audio'), 'base64');
+    const mimeType = typeof body.mimeType === 'string' ? body.mimeType : 'audio/webm';
+    return new Blob([audio], { type: mimeType });
+};
+
+const routes: Record<string, Route> = {
+    '/api/detect-language': {
+        kind: 'audio',
+        handle: async (body, { provider, signal }) => {
+            const input = typeof body.text === 'string' ? requireString(body, 'text') : readAudio(body);
+            return provider.detectLanguage(input, { signal });
+        },
+    },
+    '/api/transcribe': {
+        kind: 'audio',
+        handle: async (body, { provider, signal }) => {
+            const text = await provider.transcribeAudio(readAudio(body), requireString(body, 'sourceLanguage'), { signal });
+            return { text };
+        },
+    },
+    '/api/transcribe-speakers': {
+        kind: 'audio',
+        handle: async (body, { provider, signal }) => ({
+            turns: await provider.transcribeWithSpeakers(readAudio(body), requireString(body, 'sourceLanguage'), { signal }),
+        }),
+    },
+    '/api/translate': {
+        kind: 'text',
+        stream: true,
+        handle: async (body, { provider, signal, emit }) => ({
+            text: await provider.translateText(requireString(body, 'text'), requireString(body, 'sourceLanguage'), requireString(body, 'targetLanguage'), {
+                formality: readOptionalId(body, 'formality', FORMALITY_LEVELS),
+                glossary: readGlossary(body),
+                context: readContext(body),
+                onPartial: partial => emit({ partial }),
+                signal,
+            }),
+        }),
+    },
+    '/api/translate-with-phonetics': {
+        kind: 'text',
+        stream: true,
+        handle: async (body, { provider, signal, emit }) => ({
+            result: await provider.translateWithPhonetics(requireString(body, 'text'), requireString(body, 'sourceLanguage'), requireString(body, 'targetLanguage'), {
+                includeRomanization: body.includeRomanization === true,
+                formality: readOptionalId(body, 'formality', FORMALITY_LEVELS),
+                glossary: readGlossary(body),
+                phoneticScheme: readOptionalId(body, 'phoneticScheme', PHONETIC_SCHEMES),
+                onPartial: partial => emit({ partial }),
+                onTranslation: translation => emit({ translation }),
+                signal,
+            }),
+        }),
+    },
+    '/api/translate-segments': {
+        kind: 'text',
+        handle: async (body, { provider, signal }) => {
+            const maxLineLength = body.maxLineLength;
+            if (maxLineLength !== undefined && (!Number.isInteger(maxLineLength) || (maxLineLength as number) < 10)) {
+                throw new HttpError(400, '"maxLineLength" must be a whole number of at least 10.');
+            }
+            return {
+                translations: await provider.translateSegments(readSegments(body), requireString(body, 'sourceLanguage'), requireString(body, 'targetLanguage'), {
+                    formality: readOptionalId(body, 'formality', FORMALITY_LEVELS),
+                    glossary: readGlossary(body),
+                    context: readContext(body),
+                    maxLineLength: maxLineLength as number | undefined,
+                    signal,
+                }),
+            };
+        },
+    },
+    '/api/alternatives': {
+        kind: 'text',
+        handle: async (body, { provider, signal }) => ({
+            alternatives: await provider.getAlternatives(requireString(body, 'text'), requireString(body, 'sourceLanguage'), requireString(body, 'targetLanguage'), {
+                formality: readOptionalId(body, 'formality', FORMALITY_LEVELS),
+                glossary: readGlossary(body),
+                signal,
+            }),
+        }),
+    },
+    '/api/phonetic': {
+        kind: 'text',
+        handle: async (body, { provider, signal }) => ({
+            text: await provider.getPhoneticTranscription(requireString(body, 'text'), requireString(body, 'language'), {
+                scheme: readOptionalId(body, 'scheme', PHONETIC_SCHEMES),
+                signal,
+            }),
+        }),
+    },
+    '/api/tts': {
+        kind: 'text',
+        handle: async (body, { provider, signal }) => ({
+            audio: await provider.textToSpeech(requireString(body, 'text'), requireString(body, 'language'), requireString(body, 'voiceName'), { signal }),
+        }),
+    },
+};
+
+/**
+ * Reads and parses a JSON request body, enforcing a size cap.
+ * Oversized bodies are drained rather than buffered so the 413 response can still be delivered.
+ */
+const readJsonBody = (req: http.IncomingMessage, maxBytes: number): Promise<JsonBody> => {
+    return new Promise((resolve, reject) => {
+        const declaredLength = Number(req.headers['content-length']);
+        if (declaredLength > maxBytes) {
+            req.resume();
+            reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+            return;
+        }
+
+        const chunks: Buffer[] = [];
+        let received = 0;
+        req.on('data', (chunk: Buffer) => {
+            received += chunk.length;
+            if (received <= maxBytes) chunks.push(chunk);
+        });
+        req.on('end', () => {
+            if (received > maxBytes) {
+                reject(new HttpError(413, `Request body exceeds ${maxBytes} bytes.`));
+                return;
+            }
+            try {
+                const parsed = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+                if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+                    throw new Error('Body must be a JSON object.');
+                }
+                resolve(parsed);
+            } catch {
+                reject(new HttpError(400, 'Request body must be a JSON object.'));
+            }
+        });
+        req.on('error', reject);
+    });
+};
+
+const sendJson = (res: http.ServerResponse, status: number, payload: unknown, headers: http.OutgoingHttpHeaders = {}) => {
+    res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+    res.end(JSON.stringify(payload));
+};
+
+/**
+ * Runs a streaming handler, writing every emitted message and then the final payload
+ * as newline-delimited JSON. Headers are only sent once the first message is ready,
+ * so validation errors thrown up front still get a proper status code.
+ */
+const streamJson = async (res: http.ServerResponse, run: (emit: (message: unknown) => void) => Promise<unknown>) => {
+    const write = (message: unknown) => {
+        if (!res.headersSent) {
+            res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-cache' });
+        }
+        res.write(JSON.stringify(message) + '\n');
+    };
+    const result = await run(write);
+    write(result);
+    res.end();
+};
+
+/**
+ * Creates the HTTP server that proxies browser requests to the model provider.
+ * The provider is injected so the server can run against the offline mock in tests.
+ * @param options The provider plus optional rate limit and body size settings.
+ * @returns An http.Server that has not started listening yet.
+ */
+export const createProxyServer = ({
+    provider,
+    rateLimit = DEFAULT_RATE_LIMIT,
+    maxBodyBytes = DEFAULT_MAX_BODY_BYTES,
+    trustProxy = false,
+}: ProxyServerOptions): http.Server => {
+    const takeToken = createRateLimiter(rateLimit);
+
+    const getClientId = (req: http.IncomingMessage): string => {
+        const forwarded = req.headers['x-forwarded-for'];
+        if (trustProxy && typeof forwarded === 'string' && forwarded) {
+            return forwarded.split(',')[0].trim();
+        }
+        return req.socket.remoteAddress ?? 'unknown';
+    };
+
+    return http.createServer(async (req, res) => {
+        const path = (req.url ?? '').split('?')[0];
+        const route = routes[path];
+        const controller = new AbortController();
+        res.on('close', () => {
+            if (!res.writableFinished) controller.abort();
+        });
+        try {
+            if (!route) throw new HttpError(404, 'Not found.');
+            if (req.method !== 'POST') {
+                res.setHeader('Allow', 'POST');
+                throw new HttpError(405, 'Method not allowed.');
+            }
+
+            const { allowed, retryAfterSeconds } = takeToken(getClientId(req));
+            if (!allowed) {
+                req.resume();
+                sendJson(res, 429, { error: 'Too many requests.', kind: 'rate-limit' }, { 'Retry-After': String(retryAfterSeconds) });
+                return;
+            }
+
+            const body = await readJsonBody(req, maxBodyBytes[route.kind]);
+            const context = { provider, signal: controller.signal, emit: () => {} };
+            if (route.stream) {
+                await streamJson(res, emit => route.handle(body, { ...context, emit }));
+                return;
+            }
+            sendJson(res, 200, await route.handle(body, context));
+        } catch (err) {
+            if (controller.signal.aborted) {
+                // The client went away; there is nobody left to answer.
+                return;
+            }
+            try {
+                if (res.headersSent) {
+                    // Validation errors surface before the stream starts, so anything here came from the provider mid-stream.
+                    console.error(`Proxy stream for ${path} failed:`, err);
+                    res.end(JSON.stringify(toErrorPayload(err)) + '\n');
+                } else if (err instanceof HttpError) {
+                    sendJson(res, err.status, { error: err.message });
+                } else {
+                    console.error(`Proxy request to ${path} failed:`, err);
+                    const payload = toErrorPayload(err);
+                    sendJson(res, STATUS_BY_KIND[payload.kind] ?? 500, payload);
+                }
+            } catch (writeError) {
+                // An exception escaping here would reject the handler and leave the request hanging.
+                console.error(`Could not send the error response for ${path}:`, writeError);
+                res.destroy();
+            }
+        }
+    });
+};
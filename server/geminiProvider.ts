@@ -0,0 +1,453 @@
+import { FinishReason, GenerateContentResponse, GoogleGenAI, Modality, Type } from '@google/genai';
+import { FORMALITY_LEVELS, PRONOUN_HINTS, SUPPORTED_LANGUAGES } from '../constants';
+import { Formality, GlossaryTerm, PhoneticScheme } from '../types';
+import { DetectedLanguage, PhoneticOptions, RequestOptions, SegmentTranslateOptions, SpeakerTurn, StructuredTranslateOptions, TranslateOptions, TranslationAlternative, TranslationContext, TranslationProvider, TranslationResult, TranslationSettings } from '../services/translationProvider';
+import { TranslationError } from '../services/errors';
+
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+    FinishReason.SAFETY,
+    FinishReason.BLOCKLIST,
+    FinishReason.PROHIBITED_CONTENT,
+    FinishReason.SPII,
+];
+
+// How each phonetic scheme is described to the model.
+const PHONETIC_INSTRUCTIONS: Record<PhoneticScheme, string> = {
+    simple: "a simple, user-friendly pronunciation guide using common English letters and syllable breaks (for example, 'oh-lah' for the Spanish 'hola')",
+    ipa: 'a broad IPA transcription of the standard pronunciation, enclosed in slashes',
+    iso15919: 'a strict ISO 15919 transliteration, with its diacritics',
+    pinyin: 'Hanyu Pinyin with tone marks (for example, nǐ hǎo), one word per group of syllables',
+    hepburn: 'a modified Hepburn romanization with macrons for long vowels (for example, Tōkyō)',
+};
+
+/**
+ * Describes the requested register, and for languages that mark it grammatically, which form of address to use.
+ */
+const registerInstruction = (targetLanguage: string, formality: Formality = 'neutral'): string => {
+    const level = FORMALITY_LEVELS.find(({ id }) => id === formality);
+    const pronoun = PRONOUN_HINTS[targetLanguage]?.[formality];
+    const addressing = pronoun ? ` Address the reader consistently with "${pronoun}".` : '';
+    return level ? ` Use ${level.description}.${addressing}` : '';
+};
+
+/**
+ * Lists the glossary rules the translation has to follow.
+ */
+const glossaryInstruction = (terms: GlossaryTerm[] = []): string => {
+    const pinned = terms.filter(term => term.source !== term.target);
+    const kept = terms.filter(term => term.source === term.target);
+    let instruction = '';
+    if (pinned.length > 0) {
+        instruction += ` Always translate these terms exactly as given: ${pinned.map(term => `${JSON.stringify(term.source)} → ${JSON.stringify(term.target)}`).join('; ')}.`;
+    }
+    if (kept.length > 0) {
+        instruction += ` Keep these terms unchanged, without translating or transliterating them: ${kept.map(term => JSON.stringify(term.source)).join(', ')}.`;
+    }
+    return instruction;
+};
+
+/**
+ * Quotes the neighbouring text of a chunk from a longer document, marked as not to be translated.
+ */
+const contextInstruction = (context: TranslationContext = {}): string => {
+    let instruction = '';
+    if (context.before) instruction += ` For context only, the text comes right after: "${context.before}".`;
+    if (context.after) instruction += ` For context only, the text is followed by: "${context.after}".`;
+    return instruction ? `${instruction} Do not translate or repeat the context; translate only the text itself, consistently with it.` : '';
+};
+
+/**
+ * Throws a `safety` TranslationError if the prompt or the candidate was blocked.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (blockReason || BLOCKED_FINISH_REASONS.includes(finishReason)) {
+        throw new TranslationError('safety', `The request was blocked (${blockReason ?? finishReason}).`);
+    }
+};
+
+/**
+ * Returns the trimmed response text, throwing a typed error if it was blocked or empty.
+ */
+const requireText = (response: GenerateContentResponse): string => {
+    assertNotBlocked(response);
+    const text = response.text?.trim();
+    if (!text) throw new TranslationError('empty-response', 'The model returned an empty response.');
+    return text;
+};
+
+/**
+ * Reads a string field out of JSON that may still be streaming in.
+ * @param json The (possibly truncated) JSON text received so far.
+ * @param field The top-level field to read.
+ * @returns The decoded prefix of the string and whether its closing quote has arrived, or null if the field has not started.
+ */
+const readPartialJsonString = (json: string, field: string): { value: string; complete: boolean } | null => {
+    const start = json.match(new RegExp(`"${field}"\\s*:\\s*"`));
+    if (!start || start.index === undefined) return null;
+
+    let value = '';
+    for (let i = start.index + start[0].length; i < json.length; i++) {
+        const char = json[i];
+        if (char === '"') return { value, complete: true };
+        if (char !== '\\') {
+            value += char;
+            continue;
+        }
+        // Stop before an escape sequence that has not fully arrived yet.
+        const escape = json[i + 1];
+        if (escape === undefined) break;
+        if (escape === 'u') {
+            const hex = json.slice(i + 2, i + 6);
+            if (hex.length < 4) break;
+            value += String.fromCharCode(parseInt(hex, 16));
+            i += 5;
+        } else {
+            value += ({ n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' } as Record<string, string>)[escape] ?? escape;
+            i += 1;
+        }
+    }
+    return { value, complete: false };
+};
+
+/**
+ * Wraps an audio Blob as an inline content part.
+ */
+const toAudioPart = async (audioBlob: Blob) => ({
+    inlineData: {
+        mimeType: audioBlob.type || 'audio/webm',
+        data: Buffer.from(await audioBlob.arrayBuffer()).toString('base64'),
+    },
+});
+
+/**
+ * Creates a provider backed by the Gemini API. This runs on the proxy server only,
+ * so the API key never reaches the browser.
+ * @param apiKey The Gemini API key.
+ * @returns A TranslationProvider that calls Gemini for every operation.
+ */
+export const createGeminiProvider = (apiKey: string): TranslationProvider => {
+    const ai = new GoogleGenAI({ apiKey });
+
+    /**
+     * Identifies the language of text or speech, constrained to the languages the app supports.
+     * @param input The text, or the audio data as a Blob.
+     * @param options Optional abort signal.
+     * @returns A promise that resolves to the detected language and a confidence score.
+     */
+    const detectLanguage = async (input: string | Blob, options: RequestOptions = {}): Promise<DetectedLanguage> => {
+        const instruction = `Identify the language ${typeof input === 'string' ? 'of the following text' : 'spoken in this audio recording'}. "language" must be one of the listed languages, and "confidence" is your certainty from 0 to 1.`;
+        const parts = typeof input === 'string'
+            ? [{ text: `${instruction}\n\nText: "${input}"` }]
+            : [await toAudioPart(input), { text: instruction }];
+
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: { parts },
+            config: {
+                abortSignal: options.signal,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties: {
+                        language: { type: Type.STRING, enum: SUPPORTED_LANGUAGES.map(lang => lang.name) },
+                        confidence: { type: Type.NUMBER },
+                    },
+                    required: ['language', 'confidence'],
+                },
+            },
+        });
+
+        const result = JSON.parse(requireText(response)) as DetectedLanguage;
+        return { language: result.language, confidence: Math.min(1, Math.max(0, result.confidence)) };
+    };
+
+    /**
+     * Transcribes audio using a multimodal Gemini model.
+     * @param audioBlob The audio data as a Blob.
+     * @param sourceLanguage The language of the audio being transcribed.
+     * @param options Optional abort signal.
+     * @returns A promise that resolves to the transcribed text.
+     */
+    const transcribeAudio = async (audioBlob: Blob, sourceLanguage: string, options: RequestOptions = {}): Promise<string> => {
+        const audioPart = await toAudioPart(audioBlob);
+        const textPart = {
+          text: `Transcribe this ${sourceLanguage} audio recording accurately. Provide only the transcribed text.`,
+        };
+
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: { parts: [audioPart, textPart] },
+            config: { abortSignal: options.signal },
+        });
+
+        return requireText(response);
+    };
+
+    /**
+     * Transcribes audio into timed turns with speaker labels (diarization).
+     * @param audioBlob The audio data as a Blob.
+     * @param sourceLanguage The language of the audio being transcribed.
+     * @param options Optional abort signal.
+     * @returns A promise that resolves to the turns, sorted by start time.
+     */
+    const transcribeWithSpeakers = async (audioBlob: Blob, sourceLanguage: string, options: RequestOptions = {}): Promise<SpeakerTurn[]> => {
+        const audioPart = await toAudioPart(audioBlob);
+        const textPart = {
+            text: `Transcribe this ${sourceLanguage} audio recording accurately, split into turns. Start a new turn whenever the speaker changes or after a long pause. Label speakers "Speaker 1", "Speaker 2" and so on, in order of first appearance, and keep the same label for the same voice throughout. "start" and "end" are the turn's times in seconds from the beginning of the recording.`,
+        };
+
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: { parts: [audioPart, textPart] },
+            config: {
+                abortSignal: options.signal,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            start: { type: Type.NUMBER },
+                            end: { type: Type.NUMBER },
+                            speaker: { type: Type.STRING },
+                            text: { type: Type.STRING },
+                        },
+                        required: ['start', 'end', 'speaker', 'text'],
+                    },
+                },
+            },
+        });
+
+        // Model timings can overlap or run backwards; keep them ordered and non-negative.
+        const turns = (JSON.parse(requireText(response)) as SpeakerTurn[])
+            .filter(turn => turn.text?.trim())
+            .map(turn => {
+                const start = Math.max(0, Number(turn.start) || 0);
+                return { start, end: Math.max(start, Number(turn.end) || start), speaker: turn.speaker?.trim() || 'Speaker 1', text: turn.text.trim() };
+            })
+            .sort((a, b) => a.start - b.start);
+        if (turns.length === 0) throw new TranslationError('empty-response', 'The model returned an empty transcript.');
+        return turns;
+    };
+
+    /**
+     * Translates text from a source language to a target language, streaming the output.
+     * @param text The text to translate.
+     * @param sourceLanguage The language of the input text.
+     * @param targetLanguage The language to translate into.
+     * @param options Optional callback that receives the translation as it streams in, the formality, a glossary and an abort signal.
+     * @returns A promise that resolves to the translated text.
+     */
+    const translateText = async (text: string, sourceLanguage: string, targetLanguage: string, options: TranslateOptions = {}): Promise<string> => {
+        const prompt = `You are an expert translator. Translate the following ${sourceLanguage} text to ${targetLanguage}.${registerInstruction(targetLanguage, options.formality)}${glossaryInstruction(options.glossary)}${contextInstruction(options.context)} Provide only the translation, without any additional explanations, labels, or pleasantries.\n\n${sourceLanguage} text: "${text}"`;
+    
+        const stream = await ai.models.generateContentStream({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: { abortSignal: options.signal },
+        });
+
+        let translated = '';
+        for await (const chunk of stream) {
+            assertNotBlocked(chunk);
+            translated += chunk.text ?? '';
+            options.onPartial?.(translated.trimStart());
+        }
+        if (!translated.trim()) throw new TranslationError('empty-response', 'The model returned an empty translation.');
+        return translated.trim();
+    };
+
+    /**
+     * Translates text and builds its pronunciation guide with one structured (JSON) call.
+     * The translation field is requested first, so it can be streamed and handed to TTS
+     * while the phonetic guide is still being generated.
+     * @param text The text to translate.
+     * @param sourceLanguage The language of the input text.
+     * @param targetLanguage The language to translate into.
+     * @param options Optional streaming callbacks, formality, glossary, romanization flag, phonetic scheme and abort signal.
+     * @returns A promise that resolves to the translation, phonetic guide and optional romanization.
+     */
+    const translateWithPhonetics = async (text: string, sourceLanguage: string, targetLanguage: string, options: StructuredTranslateOptions = {}): Promise<TranslationResult> => {
+        const romanizationInstruction = options.includeRomanization
+            ? ` "romanization" is a standard Latin-script romanization of the translation (leave it empty if ${targetLanguage} already uses the Latin alphabet).`
+            : '';
+        const prompt = `You are an expert translator and linguist. Translate the following ${sourceLanguage} text to ${targetLanguage}.${registerInstruction(targetLanguage, options.formality)}${glossaryInstruction(options.glossary)} "translation" is only the translation, without any additional explanations, labels, or pleasantries. "phonetic" is ${PHONETIC_INSTRUCTIONS[options.phoneticScheme ?? 'simple']} of the translation.${romanizationInstruction}\n\n${sourceLanguage} text: "${text}"`;
+
+        const properties: Record<string, { type: Type }> = {
+            translation: { type: Type.STRING },
+            phonetic: { type: Type.STRING },
+        };
+        if (options.includeRomanization) properties.romanization = { type: Type.STRING };
+
+        const stream = await ai.models.generateContentStream({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                abortSignal: options.signal,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.OBJECT,
+                    properties,
+                    required: Object.keys(properties),
+                    propertyOrdering: Object.keys(properties),
+                },
+            },
+        });
+
+        let json = '';
+        let translationDone = false;
+        for await (const chunk of stream) {
+            assertNotBlocked(chunk);
+            json += chunk.text ?? '';
+            const translation = readPartialJsonString(json, 'translation');
+            if (!translation || translationDone) continue;
+            options.onPartial?.(translation.value.trimStart());
+            if (translation.complete) {
+                translationDone = true;
+                options.onTranslation?.(translation.value.trim());
+            }
+        }
+
+        let result: TranslationResult;
+        try {
+            result = JSON.parse(json);
+        } catch (err) {
+            throw new TranslationError('empty-response', 'The model returned an incomplete translation.', { cause: err });
+        }
+        const translation = result.translation?.trim();
+        if (!translation) throw new TranslationError('empty-response', 'The model returned an empty translation.');
+        if (!translationDone) options.onTranslation?.(translation);
+        return {
+            translation,
+            phonetic: result.phonetic?.trim() ?? '',
+            romanization: result.romanization?.trim() || undefined,
+        };
+    };
+
+    /**
+     * Translates consecutive segments with one structured (JSON array) call, so each is
+     * translated in the context of its neighbours but comes back on its own.
+     * @param segments The texts to translate, in order.
+     * @param sourceLanguage The language of the segments.
+     * @param targetLanguage The language to translate into.
+     * @param options Optional surrounding context, line-length limit, formality, glossary and abort signal.
+     * @returns A promise that resolves to one translation per segment.
+     */
+    const translateSegments = async (segments: string[], sourceLanguage: string, targetLanguage: string, options: SegmentTranslateOptions = {}): Promise<string[]> => {
+        const lineLength = options.maxLineLength ? ` Break each translation into lines ("\\n") of at most ${options.maxLineLength} characters, using no more lines than needed.` : ' Keep line breaks ("\\n") where the original has them.';
+        const prompt = `You are an expert translator. Translate each of the following ${segments.length} ${sourceLanguage} segments to ${targetLanguage}. They are consecutive parts of one text, such as subtitle cues or interface strings: translate each on its own, consistently with its neighbours.${registerInstruction(targetLanguage, options.formality)}${glossaryInstruction(options.glossary)}${contextInstruction(options.context)} Keep markup tags (such as <i>, </i>, <b>, {\\an8}) and placeholders (such as {name}, {{count}}, %s, %1$d) exactly as written, in the right place in the translation.${lineLength} Return exactly ${segments.length} translations, in the same order, without explanations.\n\n${sourceLanguage} segments: ${JSON.stringify(segments)}`;
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                abortSignal: options.signal,
+                responseMimeType: 'application/json',
+                responseSchema: { type: Type.ARRAY, items: { type: Type.STRING } },
+            },
+        });
+
+        const translations = (JSON.parse(requireText(response)) as string[]).map(translation => translation?.trim() ?? '');
+        if (translations.length !== segments.length || translations.some(translation => !translation)) {
+            throw new TranslationError('empty-response', `The model returned ${translations.length} translations for ${segments.length} segments.`);
+        }
+        return translations;
+    };
+
+    /**
+     * Asks for several candidate translations, each with a note on its meaning and register.
+     * @param text The text to translate.
+     * @param sourceLanguage The language of the input text.
+     * @param targetLanguage The language to translate into.
+     * @param options Optional formality, glossary and abort signal.
+     * @returns A promise that resolves to 2–4 alternatives, best first.
+     */
+    const getAlternatives = async (text: string, sourceLanguage: string, targetLanguage: string, options: TranslationSettings = {}): Promise<TranslationAlternative[]> => {
+        const prompt = `You are an expert translator. Give 2 to 4 distinct candidate translations of the following ${sourceLanguage} text to ${targetLanguage}, best first.${registerInstruction(targetLanguage, options.formality)}${glossaryInstruction(options.glossary)} "translation" is only the translated text. "note" is one or two short English sentences on how that candidate differs: whether it is literal or idiomatic, what it means, and its register.\n\n${sourceLanguage} text: "${text}"`;
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            config: {
+                abortSignal: options.signal,
+                responseMimeType: 'application/json',
+                responseSchema: {
+                    type: Type.ARRAY,
+                    items: {
+                        type: Type.OBJECT,
+                        properties: {
+                            translation: { type: Type.STRING },
+                            note: { type: Type.STRING },
+                        },
+                        required: ['translation', 'note'],
+                        propertyOrdering: ['translation', 'note'],
+                    },
+                },
+            },
+        });
+
+        const alternatives = (JSON.parse(requireText(response)) as TranslationAlternative[])
+            .map(alternative => ({ translation: alternative.translation?.trim() ?? '', note: alternative.note?.trim() ?? '' }))
+            .filter(alternative => alternative.translation)
+            .slice(0, 4);
+        if (alternatives.length === 0) throw new TranslationError('empty-response', 'The model returned no alternative translations.');
+        return alternatives;
+    };
+
+    /**
+     * Generates a phonetic pronunciation guide for text.
+     * @param text The text to get pronunciation for.
+     * @param language The language of the text.
+     * @param options Optional transcription scheme and abort signal.
+     * @returns A promise that resolves to the phonetic guide.
+     */
+    const getPhoneticTranscription = async (text: string, language: string, options: PhoneticOptions = {}): Promise<string> => {
+        const prompt = `You are a linguistic expert. Provide ${PHONETIC_INSTRUCTIONS[options.scheme ?? 'simple']} of the following ${language} text. Do not add any extra explanation, just the transcription.\n\nText: "${text}"`;
+        const response = await ai.models.generateContent({
+            model: 'gemini-2.5-flash',
+            contents: prompt,
+            // A fixed temperature keeps the transcription consistent between calls.
+            config: { abortSignal: options.signal, temperature: 0 },
+        });
+        return requireText(response);
+    };
+
+
+    /**
+     * Converts text to speech using the Gemini TTS model.
+     * @param text The text to convert to audio.
+     * @param language The language of the text.
+     * @param voiceName The desired voice for the TTS output.
+     * @param options Optional abort signal.
+     * @returns A promise that resolves to a base64 encoded audio string (raw PCM data).
+     */
+    const textToSpeech = async (text: string, language: string, voiceName: string, options: RequestOptions = {}): Promise<string> => {
+        // A more descriptive prompt can help the model generate more reliable audio,
+        // especially for short phrases or different languages.
+        const ttsPrompt = `Speak the following ${language} text clearly: ${text}`;
+    
+        const response = await ai.models.generateContent({
+            model: "gemini-2.5-flash-preview-tts",
+            contents: [{ parts: [{ text: ttsPrompt }] }],
+            config: {
+                abortSignal: options.signal,
+                responseModalities: [Modality.AUDIO],
+                speechConfig: {
+                    voiceConfig: {
+                      prebuiltVoiceConfig: { voiceName: voiceName },
+                    },
+                },
+            },
+        });
+
+        const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+        if (!base64Audio) {
+            console.error("TTS API Response Error:", response);
+            assertNotBlocked(response);
+            throw new TranslationError('empty-response', "Failed to generate audio from text.");
+        }
+        return base64Audio;
+    };
+
+    return { detectLanguage, transcribeAudio, transcribeWithSpeakers, translateText, translateWithPhonetics, translateSegments, getAlternatives, getPhoneticTranscription, textToSpeech };
+};
@@ -0,0 +1,35 @@
+import { createProxyServer } from './app';
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from '../services/mockProvider';
+import { TranslationProvider } from '../services/translationProvider';
+
+try {
+    process.loadEnvFile('.env.local');
+} catch {
+    // No .env.local; rely on the real environment.
+}
+
+const createProvider = (): TranslationProvider => {
+    if (process.env.TRANSLATION_PROVIDER === 'mock') {
+        return createMockProvider({ latencyMs: 0 });
+    }
+    const apiKey = process.env.GEMINI_API_KEY;
+    if (!apiKey) {
+        throw new Error('GEMINI_API_KEY environment variable not set (use TRANSLATION_PROVIDER=mock to run without one).');
+    }
+    return createGeminiProvider(apiKey);
+};
+
+const port = Number(process.env.PROXY_PORT ?? 8787);
+const server = createProxyServer({
+    provider: createProvider(),
+    rateLimit: {
+        capacity: Number(process.env.RATE_LIMIT_BURST ?? 20),
+        refillPerMinute: Number(process.env.RATE_LIMIT_PER_MINUTE ?? 30),
+    },
+    trustProxy: process.env.TRUST_PROXY === 'true',
+});
+
+server.listen(port, () => {
+    console.log(`Translation proxy listening on http://localhost:${port}`);
+});
@@ -0,0 +1,61 @@
+export interface RateLimitOptions {
+    /** Maximum burst of requests a single client can make. */
+    capacity: number;
+    /** Sustained number of requests per minute a client is allowed. */
+    refillPerMinute: number;
+}
+
+export interface RateLimitResult {
+    allowed: boolean;
+    /** Seconds until the next request would be allowed (0 when allowed). */
+    retryAfterSeconds: number;
+}
+
+interface Bucket {
+    tokens: number;
+    updatedAt: number;
+}
+
+// Idle buckets are pruned once the table grows past this many clients.
+const MAX_TRACKED_CLIENTS = 10000;
+
+/**
+ * Creates a per-client token bucket rate limiter.
+ * @param options Bucket capacity and refill rate.
+ * @param now Clock used for refill calculations (overridable for tests).
+ * @returns A function that consumes one token for the given client.
+ */
+export const createRateLimiter = ({ capacity, refillPerMinute }: RateLimitOptions, now: () => number = Date.now) => {
+    const buckets = new Map<string, Bucket>();
+    const refillPerMs = refillPerMinute / 60000;
+
+    const refill = (bucket: Bucket, time: number) => {
+        bucket.tokens = Math.min(capacity, bucket.tokens + (time - bucket.updatedAt) * refillPerMs);
+        bucket.updatedAt = time;
+    };
+
+    const prune = (time: number) => {
+        for (const [clientId, bucket] of buckets) {
+            refill(bucket, time);
+            if (bucket.tokens >= capacity) buckets.delete(clientId);
+        }
+    };
+
+    return (clientId: string): RateLimitResult => {
+        const time = now();
+        if (buckets.size > MAX_TRACKED_CLIENTS) prune(time);
+
+        let bucket = buckets.get(clientId);
+        if (!bucket) {
+            bucket = { tokens: capacity, updatedAt: time };
+            buckets.set(clientId, bucket);
+        }
+        refill(bucket, time);
+
+        if (bucket.tokens >= 1) {
+            bucket.tokens -= 1;
+            return { allowed: true, retryAfterSeconds: 0 };
+        }
+        return { allowed: false, retryAfterSeconds: Math.ceil((1 - bucket.tokens) / refillPerMs / 1000) };
+    };
+};
@@ -0,0 +1,125 @@
+import { Mp3Encoder } from '@breezystack/lamejs';
+import { AudioExportFormat } from '../types';
+import { WavInfo, pcmToWavBlob } from '../utils';
+
+/**
+ * Client-side encoding of the spoken translation for download: WAV with embedded metadata,
+ * MP3 through a JavaScript encoder, or Opus in WebM through the browser's MediaRecorder.
+ */
+
+export interface AudioExportOptions {
+    format: AudioExportFormat;
+    /** Output sample rate; the speech itself is generated at 24 kHz. */
+    sampleRate: number;
+    /** Metadata for WAV files; MP3 and WebM are written without it. */
+    info?: WavInfo;
+}
+
+// The sample rate of the raw PCM returned by text-to-speech.
+export const SPEECH_SAMPLE_RATE = 24000;
+const MP3_BITRATE_KBPS = 128;
+// lamejs encodes in blocks of one MPEG frame.
+const MP3_BLOCK_SIZE = 1152;
+const OPUS_MIME_TYPE = 'audio/webm;codecs=opus';
+
+// Wraps 16-bit mono PCM in an AudioBuffer, resampled to the given rate by rendering it through an offline context.
+const toAudioBuffer = async (pcm: Int16Array, sampleRate: number): Promise<AudioBuffer> => {
+    const renderer = new OfflineAudioContext(1, Math.max(1, Math.ceil(pcm.length * sampleRate / SPEECH_SAMPLE_RATE)), sampleRate);
+    const input = renderer.createBuffer(1, Math.max(1, pcm.length), SPEECH_SAMPLE_RATE);
+    const channel = input.getChannelData(0);
+    for (let i = 0; i < pcm.length; i++) channel[i] = pcm[i] / 32768;
+    if (sampleRate === SPEECH_SAMPLE_RATE) return input;
+
+    const source = renderer.createBufferSource();
+    source.buffer = input;
+    source.connect(renderer.destination);
+    source.start();
+    return renderer.startRendering();
+};
+
+const toPcm16 = (samples: Float32Array): Int16Array => {
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) pcm[i] = Math.max(-32768, Math.min(32767, Math.round(samples[i] * 32767)));
+    return pcm;
+};
+
+const encodeMp3 = (pcm: Int16Array, sampleRate: number): Blob => {
+    const encoder = new Mp3Encoder(1, sampleRate, MP3_BITRATE_KBPS);
+    const frames: Uint8Array[] = [];
+    for (let i = 0; i < pcm.length; i += MP3_BLOCK_SIZE) {
+        const frame = encoder.encodeBuffer(pcm.subarray(i, i + MP3_BLOCK_SIZE));
+        if (frame.length > 0) frames.push(frame);
+    }
+    const tail = encoder.flush();
+    if (tail.length > 0) frames.push(tail);
+    return new Blob(frames, { type: 'audio/mpeg' });
+};
+
+// MediaRecorder only records live streams, so this plays the audio into a silent destination
+// and takes as long as the audio itself.
+const encodeOpus = async (audio: AudioBuffer): Promise<Blob> => {
+    if (typeof MediaRecorder === 'undefined' || !MediaRecorder.isTypeSupported(OPUS_MIME_TYPE)) {
+        throw new Error('This browser cannot encode Opus audio; choose WAV or MP3 instead.');
+    }
+    const context = new AudioContext({ sampleRate: audio.sampleRate });
+    try {
+        const destination = context.createMediaStreamDestination();
+        const source = context.createBufferSource();
+        source.buffer = audio;
+        source.connect(destination);
+        const recorder = new MediaRecorder(destination.stream, { mimeType: OPUS_MIME_TYPE });
+        const chunks: Blob[] = [];
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        const stopped = new Promise<void>(resolve => {
+            recorder.onstop = () => resolve();
+        });
+        source.onended = () => recorder.stop();
+        await context.resume();
+        recorder.start();
+        source.start();
+        await stopped;
+        return new Blob(chunks, { type: 'audio/webm' });
+    } finally {
+        await context.close();
+    }
+};
+
+/**
+ * Encodes the spoken translation in the chosen format and sample rate.
+ * @param pcmData Raw 16-bit mono PCM at 24 kHz, as returned by text-to-speech.
+ * @param options The format, sample rate and (for WAV) metadata.
+ * @throws An Error if the browser cannot encode the chosen format.
+ */
+export const encodeSpeech = async (pcmData: Uint8Array, { format, sampleRate, info }: AudioExportOptions): Promise<Blob> => {
+    const pcm = new Int16Array(pcmData.buffer, pcmData.byteOffset, Math.floor(pcmData.byteLength / 2));
+    if (format === 'wav' && sampleRate === SPEECH_SAMPLE_RATE) return pcmToWavBlob(pcmData, sampleRate, 1, 16, info);
+
+    if (format === 'webm') return encodeOpus(await toAudioBuffer(pcm, sampleRate));
+    const resampled = sampleRate === SPEECH_SAMPLE_RATE ? pcm : toPcm16((await toAudioBuffer(pcm, sampleRate)).getChannelData(0));
+    if (format === 'mp3') return encodeMp3(resampled, sampleRate);
+    return pcmToWavBlob(new Uint8Array(resampled.buffer), sampleRate, 1, 16, info);
+};
+
+/**
+ * Fills in a download filename template. {text} is replaced by the first words of the text,
+ * {source} and {target} by the language codes and {date} and {time} by the current date and time;
+ * characters that are not safe in filenames are replaced by underscores.
+ * @returns The filename, without extension.
+ */
+export const formatFileName = (template: string, values: { text: string; source: string; target: string }, now = new Date()): string => {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const fields: Record<string, string> = {
+        text: values.text.trim().split(/\s+/).slice(0, 6).join(' ').slice(0, 40),
+        source: values.source,
+        target: values.target,
+        date: `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`,
+        time: `${pad(now.getHours())}${pad(now.getMinutes())}${pad(now.getSeconds())}`,
+    };
+    const name = template
+        .replace(/\{(\w+)\}/g, (match, field: string) => fields[field] ?? match)
+        .replace(/[\s\\/:*?"<>|\u0000-\u001f]+/g, '_')
+        .replace(/^[._]+|[._]+$/g, '');
+    return name || 'translation';
+};
@@ -0,0 +1,246 @@
+import { pcmToWavBlob } from '../utils';
+import { RequestOptions, SpeakerTurn, TranslationProvider } from './translationProvider';
+import { ChunkProgressCallback } from './longText';
+
+/**
+ * Local decoding and silence-based segmentation of uploaded recordings, so long files
+ * (interviews, voice notes) can be transcribed piece by piece with timestamps.
+ */
+
+/** Mono audio samples in the range -1..1. */
+export interface DecodedAudio {
+    samples: Float32Array;
+    sampleRate: number;
+}
+
+/** A stretch of the recording, in seconds from the start. */
+export interface AudioSegment {
+    start: number;
+    end: number;
+}
+
+export interface TranscriptSegment extends AudioSegment {
+    text: string;
+}
+
+export interface SegmentationOptions {
+    /** Longest segment to send in one transcription request. */
+    maxSegmentSeconds?: number;
+    /** Shortest pause that counts as a break between phrases. */
+    minSilenceSeconds?: number;
+}
+
+// Speech models work at 16 kHz; resampling keeps uploads small (about 2 MB of WAV per minute).
+const TRANSCRIPTION_SAMPLE_RATE = 16000;
+const FRAME_SECONDS = 0.03;
+const DEFAULT_MAX_SEGMENT_SECONDS = 60;
+const DEFAULT_MIN_SILENCE_SECONDS = 0.4;
+// Kept around each segment so word onsets and trailing consonants are not clipped.
+const PADDING_SECONDS = 0.15;
+
+/**
+ * Decodes an audio file (mp3, m4a, ogg/opus, wav, webm — whatever the browser supports)
+ * and mixes it down to mono at 16 kHz.
+ * @throws An Error if the browser cannot decode the file.
+ */
+export const decodeAudioFile = async (file: Blob): Promise<DecodedAudio> => {
+    const data = await file.arrayBuffer();
+    const context = new OfflineAudioContext(1, 1, TRANSCRIPTION_SAMPLE_RATE);
+    let decoded: AudioBuffer;
+    try {
+        decoded = await context.decodeAudioData(data);
+    } catch {
+        throw new Error('This audio format cannot be decoded by the browser.');
+    }
+
+    // Rendering through an offline context downmixes the channels and resamples in one step.
+    const length = Math.ceil(decoded.duration * TRANSCRIPTION_SAMPLE_RATE);
+    const renderer = new OfflineAudioContext(1, Math.max(1, length), TRANSCRIPTION_SAMPLE_RATE);
+    const source = renderer.createBufferSource();
+    source.buffer = decoded;
+    source.connect(renderer.destination);
+    source.start();
+    const rendered = await renderer.startRendering();
+    return { samples: rendered.getChannelData(0), sampleRate: TRANSCRIPTION_SAMPLE_RATE };
+};
+
+// Root-mean-square level of each analysis frame.
+const frameLevels = ({ samples, sampleRate }: DecodedAudio): Float32Array => {
+    const frameLength = Math.round(sampleRate * FRAME_SECONDS);
+    const levels = new Float32Array(Math.ceil(samples.length / frameLength));
+    for (let frame = 0; frame < levels.length; frame++) {
+        let sum = 0;
+        const end = Math.min(samples.length, (frame + 1) * frameLength);
+        for (let i = frame * frameLength; i < end; i++) sum += samples[i] * samples[i];
+        levels[frame] = Math.sqrt(sum / Math.max(1, end - frame * frameLength));
+    }
+    return levels;
+};
+
+/**
+ * Estimates the level below which a frame counts as silence: a few times the noise floor
+ * (the quietest tenth of the recording), so it adapts to hiss and room noise. It stays below
+ * half the median level, so recordings with hardly any pauses are not treated as silent.
+ */
+export const estimateSilenceThreshold = (levels: Float32Array): number => {
+    const sorted = Float32Array.from(levels).sort();
+    const noiseFloor = sorted[Math.floor(sorted.length * 0.1)] ?? 0;
+    const median = sorted[Math.floor(sorted.length / 2)] ?? 0;
+    return Math.max(0.002, Math.min(Math.max(0.005, noiseFloor * 3), median * 0.5));
+};
+
+/**
+ * Splits a recording into segments at pauses. Consecutive phrases are grouped until the next one
+ * would push the segment past the length limit; a single phrase longer than that is cut at its
+ * quietest moment. Leading, trailing and long silent stretches are dropped.
+ * @param audio The decoded recording.
+ * @param options Segment length limit and minimum pause length.
+ * @returns The segments in order; empty if the recording is silent.
+ */
+export const findSpeechSegments = (audio: DecodedAudio, options: SegmentationOptions = {}): AudioSegment[] => {
+    const { maxSegmentSeconds = DEFAULT_MAX_SEGMENT_SECONDS, minSilenceSeconds = DEFAULT_MIN_SILENCE_SECONDS } = options;
+    const levels = frameLevels(audio);
+    const threshold = estimateSilenceThreshold(levels);
+    const maxFrames = Math.floor(maxSegmentSeconds / FRAME_SECONDS);
+    const minSilenceFrames = Math.ceil(minSilenceSeconds / FRAME_SECONDS);
+
+    // Phrases: runs of sound separated by pauses of at least minSilenceFrames, as [start, end) frames.
+    const phrases: [number, number][] = [];
+    let phraseStart = -1;
+    let silentFrames = 0;
+    for (let frame = 0; frame <= levels.length; frame++) {
+        const silent = frame === levels.length || levels[frame] < threshold;
+        if (!silent) {
+            if (phraseStart < 0) phraseStart = frame;
+            silentFrames = 0;
+        } else if (phraseStart >= 0 && (++silentFrames >= minSilenceFrames || frame === levels.length)) {
+            phrases.push([phraseStart, frame - silentFrames + 1]);
+            phraseStart = -1;
+        }
+    }
+
+    // Cuts an over-long phrase at the quietest frame in the second half of each window.
+    const splitPhrase = ([start, end]: [number, number]): [number, number][] => {
+        const parts: [number, number][] = [];
+        while (end - start > maxFrames) {
+            let cut = start + Math.floor(maxFrames / 2);
+            for (let frame = cut; frame < start + maxFrames; frame++) if (levels[frame] < levels[cut]) cut = frame;
+            parts.push([start, cut]);
+            start = cut;
+        }
+        parts.push([start, end]);
+        return parts;
+    };
+
+    const groups: [number, number][] = [];
+    for (const phrase of phrases.flatMap(splitPhrase)) {
+        const current = groups[groups.length - 1];
+        if (current && phrase[1] - current[0] <= maxFrames) current[1] = phrase[1];
+        else groups.push([...phrase]);
+    }
+    const duration = audio.samples.length / audio.sampleRate;
+    return groups.map(([start, end]) => ({
+        start: Math.max(0, start * FRAME_SECONDS - PADDING_SECONDS),
+        end: Math.min(duration, end * FRAME_SECONDS + PADDING_SECONDS),
+    }));
+};
+
+/**
+ * Encodes a slice of the decoded audio as a 16-bit WAV file for upload.
+ */
+export const segmentToWav = ({ samples, sampleRate }: DecodedAudio, segment: AudioSegment): Blob => {
+    const slice = samples.subarray(Math.floor(segment.start * sampleRate), Math.ceil(segment.end * sampleRate));
+    const pcm = new Int16Array(slice.length);
+    for (let i = 0; i < slice.length; i++) pcm[i] = Math.max(-32768, Math.min(32767, Math.round(slice[i] * 32767)));
+    return pcmToWavBlob(new Uint8Array(pcm.buffer), sampleRate, 1, 16);
+};
+
+/**
+ * Formats a position as [mm:ss], or [h:mm:ss] past the first hour.
+ */
+export const formatTimestamp = (seconds: number): string => {
+    const total = Math.floor(seconds);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    const clock = `${pad(Math.floor(total / 60) % 60)}:${pad(total % 60)}`;
+    return total >= 3600 ? `[${Math.floor(total / 3600)}:${clock}]` : `[${clock}]`;
+};
+
+/**
+ * Joins transcribed segments into one transcript, one timestamped line per segment.
+ */
+export const formatTranscript = (segments: TranscriptSegment[]): string =>
+    segments.filter(segment => segment.text.trim()).map(segment => `${formatTimestamp(segment.start)} ${segment.text.trim()}`).join('\n');
+
+/**
+ * Transcribes each segment of a recording in turn.
+ * @param provider The backend to transcribe with.
+ * @param audio The decoded recording.
+ * @param segments The segments, from findSpeechSegments.
+ * @param language The language spoken in the recording.
+ * @param options Optional abort signal.
+ * @param onProgress Called after each segment.
+ * @returns The segments with their text.
+ */
+export const transcribeSegments = async (
+    provider: TranslationProvider,
+    audio: DecodedAudio,
+    segments: AudioSegment[],
+    language: string,
+    options: RequestOptions = {},
+    onProgress?: ChunkProgressCallback,
+): Promise<TranscriptSegment[]> => {
+    const transcript: TranscriptSegment[] = [];
+    for (const segment of segments) {
+        const text = await provider.transcribeAudio(segmentToWav(audio, segment), language, options);
+        transcript.push({ ...segment, text });
+        onProgress?.(transcript.length, segments.length);
+    }
+    return transcript;
+};
+
+/**
+ * Transcribes each segment of a recording into speaker turns, with times relative to the whole recording.
+ * Segments are transcribed separately, so a speaker keeps their label only as far as the model
+ * recognizes the same voice from one segment to the next.
+ * @param provider The backend to transcribe with.
+ * @param audio The decoded recording.
+ * @param segments The segments, from findSpeechSegments.
+ * @param language The language spoken in the recording.
+ * @param options Optional abort signal.
+ * @param onProgress Called after each segment.
+ * @returns The turns of all segments, in order.
+ */
+export const transcribeSegmentsWithSpeakers = async (
+    provider: TranslationProvider,
+    audio: DecodedAudio,
+    segments: AudioSegment[],
+    language: string,
+    options: RequestOptions = {},
+    onProgress?: ChunkProgressCallback,
+): Promise<SpeakerTurn[]> => {
+    const turns: SpeakerTurn[] = [];
+    for (const [index, segment] of segments.entries()) {
+        const segmentTurns = await provider.transcribeWithSpeakers(segmentToWav(audio, segment), language, options);
+        turns.push(...segmentTurns.map(turn => ({ ...turn, start: segment.start + turn.start, end: segment.start + turn.end })));
+        onProgress?.(index + 1, segments.length);
+    }
+    return turns;
+};
+
+/**
+ * Cuts the leading and trailing silence off a recording before it is uploaded.
+ * @param recording The recorded audio.
+ * @returns A WAV of the span from the first to the last speech, null if the recording is silent,
+ *          or the recording itself if the browser cannot decode it.
+ */
+export const trimSilence = async (recording: Blob): Promise<Blob | null> => {
+    let audio: DecodedAudio;
+    try {
+        audio = await decodeAudioFile(recording);
+    } catch {
+        return recording;
+    }
+    const segments = findSpeechSegments(audio);
+    if (segments.length === 0) return null;
+    return segmentToWav(audio, { start: segments[0].start, end: segments[segments.length - 1].end });
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { getCandidates, transliterate } from './avroPhonetic';
+
+describe('transliterate', () => {
+    it('joins consonant pairs that form a conjunct', () => {
+        expect(transliterate('shanti')).toBe('শান্তি');
+        expect(transliterate('bostu')).toBe('বস্তু');
+        expect(transliterate('ambor')).toBe('আম্বর');
+        expect(transliterate('lokShmi')).toBe('লক্ষ্মি');
+        expect(transliterate('ostro')).toBe('অস্ত্র');
+        expect(transliterate('prem')).toBe('প্রেম');
+        expect(transliterate('kormo')).toBe('কর্ম');
+    });
+
+    it('keeps the inherent vowel between consonants that do not form a conjunct', () => {
+        expect(transliterate('kolkata')).toBe('কলকাতা');
+        expect(transliterate('rajshahi')).toBe('রাজশাহি');
+        expect(transliterate('amra')).toBe('আমরা');
+        expect(transliterate('sorkar')).toBe('সরকার');
+    });
+
+    it('turns y and w after a consonant into a phala', () => {
+        expect(transliterate('gyan')).toBe('গ্যান');
+        expect(transliterate('swami')).toBe('স্বামি');
+    });
+
+    it('forces a hasanta with ",," and keeps letters apart with "`"', () => {
+        expect(transliterate('k,,')).toBe('ক্');
+        expect(transliterate('am,,ra')).toBe('আম্রা');
+        expect(transliterate('n`t')).toBe('নত');
+    });
+
+    it('uses vowel signs after consonants and full vowels elsewhere', () => {
+        expect(transliterate('ami')).toBe('আমি');
+        expect(transliterate('oi ke')).toBe('ঐ কে');
+    });
+});
+
+describe('getCandidates', () => {
+    it('puts known words before the rule-based reading', () => {
+        expect(getCandidates('tomake')[0]).toBe('তোমাকে');
+        expect(getCandidates('dhonnobad').slice(0, 2)).toEqual(['ধন্যবাদ', 'ধন্নবাদ']);
+    });
+
+    it('offers swapped readings of ambiguous letters', () => {
+        const candidates = getCandidates('shanti');
+        expect(candidates[0]).toBe('শান্তি');
+        expect(candidates).toContain('সান্তি');
+        expect(candidates).toContain('শান্তী');
+    });
+
+    it('returns nothing for empty input', () => {
+        expect(getCandidates('')).toEqual([]);
+    });
+});
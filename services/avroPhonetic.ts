@@ -0,0 +1,231 @@
+/**
+ * Avro-style phonetic transliteration of Latin keyboard input into Bengali script.
+ * Everything runs client-side from the rule table below; no network is involved.
+ */
+
+type RuleKind = 'vowel' | 'consonant' | 'phala' | 'mark' | 'hasanta' | 'break' | 'symbol';
+
+interface Rule {
+    roman: string;
+    kind: RuleKind;
+    /** Independent form (or the only form) and its less likely alternatives. */
+    values: string[];
+    /** Vowel sign (kar) used after a consonant, with alternatives. */
+    dependent?: string[];
+}
+
+const HASANTA = '্';
+
+// Case-sensitive like Avro: capitals select retroflex/long variants. The first value is the default.
+const RULES: Rule[] = [
+    // Vowels
+    { roman: 'rri', kind: 'vowel', values: ['ঋ'], dependent: ['ৃ'] },
+    { roman: 'OI', kind: 'vowel', values: ['ঐ'], dependent: ['ৈ'] },
+    { roman: 'OU', kind: 'vowel', values: ['ঔ'], dependent: ['ৌ'] },
+    { roman: 'oi', kind: 'vowel', values: ['ঐ', 'অই'], dependent: ['ৈ', 'ই'] },
+    { roman: 'ou', kind: 'vowel', values: ['ঔ', 'অউ'], dependent: ['ৌ', 'উ'] },
+    { roman: 'ee', kind: 'vowel', values: ['ঈ'], dependent: ['ী'] },
+    { roman: 'oo', kind: 'vowel', values: ['উ'], dependent: ['ু'] },
+    { roman: 'a', kind: 'vowel', values: ['আ', 'অ্যা'], dependent: ['া', '্যা'] },
+    { roman: 'i', kind: 'vowel', values: ['ই', 'ঈ'], dependent: ['ি', 'ী'] },
+    { roman: 'I', kind: 'vowel', values: ['ঈ'], dependent: ['ী'] },
+    { roman: 'u', kind: 'vowel', values: ['উ', 'ঊ'], dependent: ['ু', 'ূ'] },
+    { roman: 'U', kind: 'vowel', values: ['ঊ'], dependent: ['ূ'] },
+    { roman: 'e', kind: 'vowel', values: ['এ'], dependent: ['ে'] },
+    { roman: 'E', kind: 'vowel', values: ['এ'], dependent: ['ে'] },
+    // After a consonant a plain "o" is the inherent vowel, so it adds nothing by default.
+    { roman: 'o', kind: 'vowel', values: ['অ', 'ও'], dependent: ['', 'ো'] },
+    { roman: 'O', kind: 'vowel', values: ['ও'], dependent: ['ো'] },
+
+    // Consonants
+    { roman: 't``', kind: 'consonant', values: ['ৎ'] },
+    { roman: 'kh', kind: 'consonant', values: ['খ'] },
+    { roman: 'gh', kind: 'consonant', values: ['ঘ'] },
+    { roman: 'Ng', kind: 'consonant', values: ['ঙ'] },
+    { roman: 'ch', kind: 'consonant', values: ['ছ', 'চ'] },
+    { roman: 'jh', kind: 'consonant', values: ['ঝ'] },
+    { roman: 'NG', kind: 'consonant', values: ['ঞ'] },
+    { roman: 'Th', kind: 'consonant', values: ['ঠ'] },
+    { roman: 'Dh', kind: 'consonant', values: ['ঢ'] },
+    { roman: 'th', kind: 'consonant', values: ['থ', 'ঠ'] },
+    { roman: 'dh', kind: 'consonant', values: ['ধ', 'ঢ'] },
+    { roman: 'ph', kind: 'consonant', values: ['ফ'] },
+    { roman: 'bh', kind: 'consonant', values: ['ভ'] },
+    { roman: 'Sh', kind: 'consonant', values: ['ষ'] },
+    { roman: 'sh', kind: 'consonant', values: ['শ', 'স', 'ষ'] },
+    { roman: 'Rh', kind: 'consonant', values: ['ঢ়'] },
+    { roman: 'k', kind: 'consonant', values: ['ক'] },
+    { roman: 'g', kind: 'consonant', values: ['গ'] },
+    { roman: 'c', kind: 'consonant', values: ['চ'] },
+    { roman: 'j', kind: 'consonant', values: ['জ', 'য'] },
+    { roman: 'J', kind: 'consonant', values: ['জ'] },
+    { roman: 'T', kind: 'consonant', values: ['ট'] },
+    { roman: 'D', kind: 'consonant', values: ['ড'] },
+    { roman: 'N', kind: 'consonant', values: ['ণ'] },
+    { roman: 't', kind: 'consonant', values: ['ত', 'ট'] },
+    { roman: 'd', kind: 'consonant', values: ['দ', 'ড'] },
+    { roman: 'n', kind: 'consonant', values: ['ন', 'ণ'] },
+    { roman: 'p', kind: 'consonant', values: ['প'] },
+    { roman: 'f', kind: 'consonant', values: ['ফ'] },
+    { roman: 'b', kind: 'consonant', values: ['ব'] },
+    { roman: 'v', kind: 'consonant', values: ['ভ'] },
+    { roman: 'm', kind: 'consonant', values: ['ম'] },
+    { roman: 'z', kind: 'consonant', values: ['য', 'জ'] },
+    { roman: 'r', kind: 'consonant', values: ['র'] },
+    { roman: 'l', kind: 'consonant', values: ['ল'] },
+    { roman: 'S', kind: 'consonant', values: ['শ'] },
+    { roman: 's', kind: 'consonant', values: ['স', 'শ'] },
+    { roman: 'h', kind: 'consonant', values: ['হ'] },
+    { roman: 'R', kind: 'consonant', values: ['ড়'] },
+    { roman: 'Y', kind: 'consonant', values: ['য়'] },
+    { roman: 'x', kind: 'consonant', values: ['ক্স'] },
+    { roman: 'q', kind: 'consonant', values: ['ক'] },
+
+    // Letters that become a "phala" (joined form) after a consonant: [standalone, joined]
+    { roman: 'y', kind: 'phala', values: ['য়', '্য'] },
+    { roman: 'w', kind: 'phala', values: ['ও', '্ব'] },
+    { roman: 'Z', kind: 'phala', values: ['য', '্য'] },
+
+    // Signs, explicit hasanta and the conjunct breaker
+    { roman: 'ng', kind: 'mark', values: ['ং', 'ঙ'] },
+    { roman: '^', kind: 'mark', values: ['ঁ'] },
+    { roman: ':', kind: 'mark', values: ['ঃ'] },
+    { roman: ',,', kind: 'hasanta', values: [HASANTA] },
+    { roman: '`', kind: 'break', values: [''] },
+    { roman: '.', kind: 'symbol', values: ['।'] },
+    { roman: '$', kind: 'symbol', values: ['৳'] },
+    ...Array.from('0123456789', (digit, i) => ({ roman: digit, kind: 'symbol' as const, values: [String.fromCharCode(0x09E6 + i)] })),
+];
+
+// Consonant pairs that are joined with a hasanta when typed back to back, like Avro's conjunct table.
+// Any other pair keeps the inherent vowel between its letters, so "kolkata" reads কলকাতা rather than কল্কাতা.
+const CONJUNCTS = new Set([
+    'ক্ক', 'ক্ট', 'ক্ত', 'ক্ল', 'ক্ষ', 'ক্স', 'গ্ধ', 'গ্ন', 'গ্ল', 'ঙ্ক', 'ঙ্গ', 'চ্চ', 'চ্ছ', 'জ্জ', 'জ্ঞ', 'ঞ্চ', 'ঞ্জ',
+    'ট্ট', 'ড্ড', 'ণ্ট', 'ণ্ঠ', 'ণ্ড', 'ণ্ণ', 'ত্ত', 'ত্থ', 'ত্ন', 'ত্ম', 'দ্দ', 'দ্ধ', 'দ্ভ', 'দ্ম',
+    'ন্ট', 'ন্ঠ', 'ন্ড', 'ন্ত', 'ন্থ', 'ন্দ', 'ন্ধ', 'ন্ন', 'ন্ম', 'ন্স', 'প্ট', 'প্ত', 'প্ন', 'প্প', 'প্ল', 'প্স',
+    'ব্জ', 'ব্দ', 'ব্ধ', 'ব্ব', 'ব্ল', 'ম্ন', 'ম্প', 'ম্ফ', 'ম্ব', 'ম্ভ', 'ম্ম', 'ম্ল', 'ল্ট', 'ল্ড', 'ল্প', 'ল্ল',
+    'শ্চ', 'শ্ন', 'শ্ম', 'শ্ল', 'ষ্ক', 'ষ্ট', 'ষ্ঠ', 'ষ্ণ', 'ষ্প', 'ষ্ম',
+    'স্ক', 'স্খ', 'স্ট', 'স্ত', 'স্থ', 'স্ন', 'স্প', 'স্ফ', 'স্ম', 'স্ল', 'হ্ন', 'হ্ম', 'হ্ল',
+    // Ra-phala; ম্র is left out so "amra" stays আমরা.
+    'ক্র', 'গ্র', 'ঘ্র', 'ট্র', 'ড্র', 'ত্র', 'দ্র', 'ধ্র', 'প্র', 'ফ্র', 'ব্র', 'ভ্র', 'শ্র', 'স্র', 'হ্র',
+    // Reph, only before the letters it commonly joins (কর্ম, বর্ষা, সূর্য), so "sorkar" stays সরকার.
+    'র্জ', 'র্ণ', 'র্থ', 'র্ব', 'র্ম', 'র্য', 'র্শ', 'র্ষ',
+]);
+
+// Longest patterns are tried first, so "kh" wins over "k" + "h".
+const SORTED_RULES = [...RULES].sort((a, b) => b.roman.length - a.roman.length);
+
+// A few everyday words whose standard spelling the rules can't guess (e.g. ো and স in ভালোবাসি).
+const COMMON_WORDS: Record<string, string[]> = {
+    ami: ['আমি'], amar: ['আমার'], amake: ['আমাকে'], amra: ['আমরা'],
+    tumi: ['তুমি'], tomar: ['তোমার'], tomake: ['তোমাকে'], tomra: ['তোমরা'],
+    apni: ['আপনি'], apnar: ['আপনার'], apnake: ['আপনাকে'], tui: ['তুই'], tor: ['তোর'],
+    se: ['সে'], tara: ['তারা'], ke: ['কে'], ki: ['কী', 'কি'], keno: ['কেন'], kemon: ['কেমন'],
+    kothay: ['কোথায়'], kobe: ['কবে'], ekhon: ['এখন'], ei: ['এই'], oi: ['ওই'],
+    bhalo: ['ভালো'], bhalobashi: ['ভালোবাসি'], bhalobasha: ['ভালোবাসা'], ache: ['আছে'], achi: ['আছি'],
+    na: ['না'], ha: ['হ্যাঁ', 'হা'], dhonnobad: ['ধন্যবাদ'], khub: ['খুব'], shubho: ['শুভ'],
+    shokal: ['সকাল'], raat: ['রাত'], din: ['দিন'], jol: ['জল'], pani: ['পানি'], khabar: ['খাবার'],
+    khai: ['খাই'], jabo: ['যাবো'], jai: ['যাই'], ashi: ['আসি'], asho: ['এসো'], bosho: ['বসো'],
+    bhai: ['ভাই'], bon: ['বোন'], ma: ['মা'], baba: ['বাবা'], nam: ['নাম'], kotha: ['কথা'],
+    bolo: ['বলো'], boli: ['বলি'], bangla: ['বাংলা'], bangladesh: ['বাংলাদেশ'], bhasha: ['ভাষা'],
+};
+
+interface Segment {
+    kind: RuleKind | 'literal';
+    /** Output alternatives for this piece of input in its context; the first is the default. */
+    options: string[];
+}
+
+type PreviousKind = 'start' | 'vowel' | 'consonant' | 'other';
+
+const matchRule = (input: string, index: number): Rule | undefined =>
+    SORTED_RULES.find(rule => input.startsWith(rule.roman, index))
+    // Avro treats capitals without a rule of their own like lower case.
+    ?? SORTED_RULES.find(rule => rule.roman.length === 1 && rule.roman === input[index].toLowerCase());
+
+/**
+ * Splits roman input into output segments, resolving each rule against what precedes it.
+ */
+const toSegments = (input: string): Segment[] => {
+    const segments: Segment[] = [];
+    let previous: PreviousKind = 'start';
+    // The last letter of the preceding consonant, which decides whether the next one joins it.
+    let previousLetter = '';
+
+    for (let i = 0; i < input.length;) {
+        const rule = matchRule(input, i);
+        if (!rule) {
+            segments.push({ kind: 'literal', options: [input[i]] });
+            previous = 'other';
+            i += 1;
+            continue;
+        }
+        i += rule.roman.length;
+
+        switch (rule.kind) {
+            case 'vowel':
+                segments.push({ kind: rule.kind, options: previous === 'consonant' ? rule.dependent! : rule.values });
+                previous = 'vowel';
+                break;
+            case 'consonant': {
+                // Two consonants in a row form a conjunct, if they make a known one.
+                const joins = (value: string) => previous === 'consonant' && CONJUNCTS.has(previousLetter + HASANTA + value);
+                const options = rule.values.map(value => (joins(value) ? HASANTA + value : value));
+                segments.push({ kind: rule.kind, options });
+                previous = 'consonant';
+                previousLetter = options[0].slice(-1);
+                break;
+            }
+            case 'phala':
+                segments.push({ kind: rule.kind, options: previous === 'consonant' ? [rule.values[1]] : [rule.values[0]] });
+                previous = previous === 'consonant' ? 'consonant' : 'vowel';
+                break;
+            case 'mark':
+                segments.push({ kind: rule.kind, options: rule.values });
+                previous = 'vowel';
+                break;
+            default:
+                // Hasanta, conjunct breaker and symbols: nothing after them joins onto them.
+                segments.push({ kind: rule.kind, options: rule.values });
+                previous = 'other';
+                break;
+        }
+    }
+    return segments;
+};
+
+const render = (segments: Segment[], override?: { index: number; option: number }): string =>
+    segments.map((segment, index) => segment.options[override?.index === index ? override.option : 0]).join('');
+
+/**
+ * Transliterates roman text using the default reading of every rule.
+ * @param input Latin keyboard input, e.g. "ami".
+ * @returns The Bengali text, e.g. "আমি".
+ */
+export const transliterate = (input: string): string => render(toSegments(input));
+
+/**
+ * Suggests Bengali spellings for one typed word, best guess first.
+ * Known words come first, then the rule-based reading, then readings that swap
+ * one ambiguous letter (e.g. স for শ, or ো for the inherent vowel).
+ * @param word The roman word being typed.
+ * @param limit Maximum number of candidates.
+ * @returns Unique candidates; never empty for non-empty input.
+ */
+export const getCandidates = (word: string, limit = 6): string[] => {
+    if (!word) return [];
+    const segments = toSegments(word);
+    const candidates = [...(COMMON_WORDS[word] ?? []), render(segments)];
+
+    // Vowel length and the inherent "o" are the most common misreadings, so try those first.
+    for (const kinds of [['vowel'], ['consonant', 'mark']]) {
+        segments.forEach((segment, index) => {
+            if (!kinds.includes(segment.kind)) return;
+            for (let option = 1; option < segment.options.length; option++) {
+                candidates.push(render(segments, { index, option }));
+            }
+        });
+    }
+
+    return [...new Set(candidates)].slice(0, limit);
+};
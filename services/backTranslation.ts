@@ -0,0 +1,91 @@
+/**
+ * Compares a text with its back-translation (the translation translated back into the
+ * source language) to estimate how much meaning survived. This is a lexical heuristic:
+ * it rewards shared words and spellings, so paraphrases score lower than exact matches.
+ */
+
+export interface SentenceComparison {
+    original: string;
+    /** The back-translated sentence it was aligned with; empty if none matched. */
+    backTranslated: string;
+    /** 0–1 similarity between the two. */
+    similarity: number;
+    drifted: boolean;
+}
+
+export interface BackTranslationReport {
+    backTranslation: string;
+    /** 0–1 overall confidence that the translation kept the meaning. */
+    confidence: number;
+    sentences: SentenceComparison[];
+}
+
+/** Sentences below this similarity are highlighted as drifted. */
+export const DRIFT_THRESHOLD = 0.45;
+/** Results below this confidence are flagged as unreliable. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * Splits text into sentences on Latin, Bengali/Devanagari (।) and CJK terminators.
+ */
+export const splitSentences = (text: string): string[] =>
+    text
+        .split(/(?<=[.!?।॥。！？])\s*|\n+/u)
+        .map(sentence => sentence.trim())
+        .filter(sentence => /[\p{L}\p{N}]/u.test(sentence));
+
+const normalize = (text: string) => text.normalize('NFC').toLowerCase();
+
+// Words are cut to their first few letters as a crude stand-in for stemming ("translated" ~ "translation").
+const wordSet = (text: string) => new Set((normalize(text).match(/[\p{L}\p{M}\p{N}]+/gu) ?? []).map(word => word.slice(0, 6)));
+
+const trigrams = (text: string) => {
+    const compact = ` ${normalize(text).replace(/[^\p{L}\p{M}\p{N}]+/gu, ' ').trim()} `;
+    const grams = new Set<string>();
+    for (let i = 0; i + 3 <= compact.length; i++) grams.add(compact.slice(i, i + 3));
+    return grams;
+};
+
+// Dice coefficient of two sets: 2|A∩B| / (|A| + |B|).
+const dice = (a: Set<string>, b: Set<string>) => {
+    if (a.size === 0 && b.size === 0) return 1;
+    let shared = 0;
+    a.forEach(item => b.has(item) && shared++);
+    return (2 * shared) / (a.size + b.size);
+};
+
+/**
+ * Scores how similar two sentences are, from 0 (unrelated) to 1 (identical).
+ * Averages word overlap with character-trigram overlap, which tolerates inflection and typos.
+ */
+export const sentenceSimilarity = (a: string, b: string): number => (dice(wordSet(a), wordSet(b)) + dice(trigrams(a), trigrams(b))) / 2;
+
+/**
+ * Aligns the original and back-translated sentences and scores each pair.
+ * With equal sentence counts they are paired in order; otherwise each original sentence
+ * is paired with its most similar back-translated sentence.
+ * @param original The text the user entered.
+ * @param backTranslation The translation rendered back into the original language.
+ * @returns Per-sentence similarities and a length-weighted overall confidence.
+ */
+export const compareBackTranslation = (original: string, backTranslation: string): BackTranslationReport => {
+    const originalSentences = splitSentences(original);
+    const backSentences = splitSentences(backTranslation);
+    const inOrder = originalSentences.length === backSentences.length;
+
+    const sentences = originalSentences.map((sentence, index) => {
+        const candidates = inOrder ? [backSentences[index]] : backSentences;
+        let best = { backTranslated: '', similarity: 0 };
+        for (const candidate of candidates) {
+            const similarity = sentenceSimilarity(sentence, candidate);
+            if (similarity > best.similarity) best = { backTranslated: candidate, similarity };
+        }
+        return { original: sentence, ...best, similarity: Math.round(best.similarity * 100) / 100, drifted: best.similarity < DRIFT_THRESHOLD };
+    });
+
+    const totalLength = sentences.reduce((sum, { original }) => sum + original.length, 0);
+    const confidence = totalLength === 0
+        ? 0
+        : sentences.reduce((sum, { original, similarity }) => sum + similarity * original.length, 0) / totalLength;
+    return { backTranslation, confidence: Math.round(confidence * 100) / 100, sentences };
+};
@@ -0,0 +1,157 @@
+import { PhoneticScheme } from '../types';
+
+/**
+ * Deterministic, rule-based romanization of Bengali script (ISO 15919 and broad IPA).
+ * These run locally, so the same text always gets the same transcription.
+ */
+
+type LocalScheme = 'iso15919' | 'ipa';
+
+// Each table maps a letter to its [ISO 15919, IPA] rendering.
+const CONSONANTS: Record<string, [string, string]> = {
+    'ক': ['k', 'k'], 'খ': ['kh', 'kʰ'], 'গ': ['g', 'ɡ'], 'ঘ': ['gh', 'ɡʱ'], 'ঙ': ['ṅ', 'ŋ'],
+    'চ': ['c', 'tʃ'], 'ছ': ['ch', 'tʃʰ'], 'জ': ['j', 'dʒ'], 'ঝ': ['jh', 'dʒʱ'], 'ঞ': ['ñ', 'n'],
+    'ট': ['ṭ', 'ʈ'], 'ঠ': ['ṭh', 'ʈʰ'], 'ড': ['ḍ', 'ɖ'], 'ঢ': ['ḍh', 'ɖʱ'], 'ণ': ['ṇ', 'n'],
+    'ত': ['t', 't̪'], 'থ': ['th', 't̪ʰ'], 'দ': ['d', 'd̪'], 'ধ': ['dh', 'd̪ʱ'], 'ন': ['n', 'n'],
+    'প': ['p', 'p'], 'ফ': ['ph', 'pʰ'], 'ব': ['b', 'b'], 'ভ': ['bh', 'bʱ'], 'ম': ['m', 'm'],
+    'য': ['y', 'dʒ'], 'র': ['r', 'r'], 'ল': ['l', 'l'], 'শ': ['ś', 'ʃ'], 'ষ': ['ṣ', 'ʃ'],
+    'স': ['s', 'ʃ'], 'হ': ['h', 'ɦ'], 'ৎ': ['t', 't̪'], 'ৰ': ['r', 'r'], 'ৱ': ['w', 'w'],
+    // Nukta letters, both precomposed and as base + nukta.
+    'ড়': ['ṛ', 'ɽ'], 'ঢ়': ['ṛh', 'ɽ'], 'য়': ['ẏ', 'j'],
+    '\u09DC': ['ṛ', 'ɽ'], '\u09DD': ['ṛh', 'ɽ'], '\u09DF': ['ẏ', 'j'],
+};
+
+const VOWELS: Record<string, [string, string]> = {
+    'অ': ['a', 'ɔ'], 'আ': ['ā', 'a'], 'ই': ['i', 'i'], 'ঈ': ['ī', 'i'], 'উ': ['u', 'u'], 'ঊ': ['ū', 'u'],
+    'ঋ': ['r̥', 'ri'], 'এ': ['e', 'e'], 'ঐ': ['ai', 'oi̯'], 'ও': ['o', 'o'], 'ঔ': ['au', 'ou̯'],
+};
+
+const VOWEL_SIGNS: Record<string, [string, string]> = {
+    'া': ['ā', 'a'], 'ি': ['i', 'i'], 'ী': ['ī', 'i'], 'ু': ['u', 'u'], 'ূ': ['ū', 'u'],
+    'ৃ': ['r̥', 'ri'], 'ে': ['e', 'e'], 'ৈ': ['ai', 'oi̯'], 'ো': ['o', 'o'], 'ৌ': ['au', 'ou̯'],
+};
+
+// Chandrabindu nasalizes the preceding vowel in IPA, hence the combining tilde.
+const MARKS: Record<string, [string, string]> = {
+    'ং': ['ṁ', 'ŋ'], 'ঃ': ['ḥ', 'h'], 'ঁ': ['m̐', '̃'],
+};
+
+// Clusters that are not pronounced the way their letters spell: [word-initial, medial] IPA.
+const IPA_CLUSTERS: Record<string, [string, string]> = {
+    'ক্ষ': ['kʰ', 'kkʰ'],
+    'জ্ঞ': ['ɡ', 'ɡɡ'],
+};
+
+const VIRAMA = '্';
+// Letters a sibilant is pronounced [s] rather than [ʃ] before.
+const DENTAL_SIBILANT_CONTEXT = ['ত', 'থ', 'ন', 'র', 'ল'];
+
+const BENGALI_RUN = /([ঀ-৿]+)/u;
+
+// Splits a word into letters, keeping two-code-point nukta consonants together.
+const toLetters = (word: string): string[] => {
+    const letters: string[] = [];
+    for (let i = 0; i < word.length; i++) {
+        const pair = word.slice(i, i + 2);
+        if (pair.length === 2 && CONSONANTS[pair]) {
+            letters.push(pair);
+            i++;
+        } else {
+            letters.push(word[i]);
+        }
+    }
+    return letters;
+};
+
+const romanizeWord = (word: string, scheme: LocalScheme): string => {
+    const ipa = scheme === 'ipa';
+    const column = ipa ? 1 : 0;
+    const letters = toLetters(word);
+    let out = '';
+    // Where the current consonant cluster started, and the sound of its previous consonant.
+    let clusterStart = 0;
+    let previousSound = '';
+
+    for (let i = 0; i < letters.length; i++) {
+        const letter = letters[i];
+
+        if (CONSONANTS[letter]) {
+            const inCluster = letters[i - 1] === VIRAMA;
+            if (!inCluster) clusterStart = i;
+            let sound = CONSONANTS[letter][column];
+
+            const special = ipa ? IPA_CLUSTERS[letters.slice(i, i + 3).join('')] : undefined;
+            if (special) {
+                sound = special[clusterStart === 0 ? 0 : 1];
+                i += 2;
+            } else if (ipa && inCluster && (letter === 'য' || letter === 'ব')) {
+                // Ya- and ba-phala are silent at the start of a word and double the consonant elsewhere.
+                sound = clusterStart === 0 ? '' : previousSound;
+            } else if (ipa && 'শষস'.includes(letter) && letters[i + 1] === VIRAMA && DENTAL_SIBILANT_CONTEXT.includes(letters[i + 2])) {
+                sound = 's';
+            }
+            out += sound;
+            previousSound = sound || previousSound;
+
+            const next = letters[i + 1];
+            if (VOWEL_SIGNS[next]) {
+                // Word-initial ya-phala + aa is pronounced [æ], as in ব্যাগ.
+                const isInitialYaPhala = ipa && letter === 'য' && inCluster && clusterStart === 0;
+                out += isInitialYaPhala && next === 'া' ? 'æ' : VOWEL_SIGNS[next][column];
+                i++;
+            } else if (next === VIRAMA) {
+                i++;
+            } else if (!ipa) {
+                out += 'a';
+            } else if (next !== undefined) {
+                out += 'ɔ';
+            } else if (clusterStart > 0 && clusterStart < i) {
+                // A word-final cluster keeps a short "o" (শব্দ → ʃɔbd̪o).
+                out += 'o';
+            } else if (letters.length === 1) {
+                out += 'ɔ';
+            }
+            // Otherwise the inherent vowel is silent at the end of a word.
+            continue;
+        }
+
+        const rendering = VOWELS[letter] ?? VOWEL_SIGNS[letter] ?? MARKS[letter];
+        if (rendering) {
+            out += rendering[column];
+        } else if (letter >= '০' && letter <= '৯') {
+            out += String(letter.charCodeAt(0) - '০'.charCodeAt(0));
+        } else if (letter !== VIRAMA) {
+            out += letter;
+        }
+    }
+    return out;
+};
+
+/**
+ * Romanizes Bengali text with a rule-based scheme.
+ * @param text Bengali text; anything outside the Bengali block is kept as is.
+ * @param scheme 'iso15919' for a letter-by-letter transliteration, 'ipa' for a broad pronunciation.
+ * @returns The romanized text; IPA is wrapped in slashes.
+ */
+export const romanizeBengali = (text: string, scheme: LocalScheme): string => {
+    const romanized = text
+        .split(BENGALI_RUN)
+        .map((part, index) => (index % 2 === 1 ? romanizeWord(part, scheme) : part.replace(/[।॥]/g, '.')))
+        .join('')
+        .trim();
+    return scheme === 'ipa' ? `/${romanized}/` : romanized;
+};
+
+/**
+ * Produces a pronunciation guide locally when a deterministic rule set exists for the
+ * language and scheme, so no model call is needed.
+ * @param text The text to transcribe.
+ * @param language The language of the text.
+ * @param scheme The requested transcription scheme.
+ * @returns The transcription, or null if the model has to produce it.
+ */
+export const getLocalPhonetics = (text: string, language: string, scheme: PhoneticScheme): string | null => {
+    if (scheme === 'iso15919' && (language === 'Bengali' || language === 'Assamese')) return romanizeBengali(text, 'iso15919');
+    if (scheme === 'ipa' && language === 'Bengali') return romanizeBengali(text, 'ipa');
+    return null;
+};
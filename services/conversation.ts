@@ -0,0 +1,93 @@
+import { Formality } from '../types';
+import { RequestOptions, TranslationProvider } from './translationProvider';
+import { Glossary, findGlossaryTerms } from './glossary';
+import { trimSilence } from './audioSegmentation';
+
+/**
+ * Interpreter mode: two people who speak different languages take turns, and each utterance
+ * is transcribed, translated into the other person's language and spoken aloud.
+ */
+
+export interface ConversationParty {
+    language: string;
+    /** The TTS voice the translations of this person's words are spoken in. */
+    voice: string;
+}
+
+export interface ConversationTurn {
+    /** Index of the party who spoke, 0 or 1. */
+    speaker: 0 | 1;
+    original: string;
+    translation: string;
+    /** When the turn was recorded, in milliseconds since the epoch. */
+    time: number;
+}
+
+export type ConversationExportFormat = 'txt' | 'json';
+
+export interface InterpretOptions extends RequestOptions {
+    formality?: Formality;
+    /** The user's glossary; the rules that match each utterance are applied to its translation. */
+    glossary?: Glossary;
+}
+
+/** One interpreted utterance. */
+export interface InterpretedUtterance {
+    original: string;
+    translation: string;
+    /** The spoken translation, as base64 encoded raw PCM (24 kHz, mono, 16-bit). */
+    audio: string;
+}
+
+/**
+ * Transcribes one utterance, translates it into the listener's language and speaks the translation
+ * in the speaker's voice.
+ * @param provider The backend to use.
+ * @param recording The recorded utterance.
+ * @param speaker Who spoke: their language and voice.
+ * @param listener Who the translation is for.
+ * @param options Formality, glossary and abort signal.
+ * @returns The interpreted utterance, or null if the recording holds no speech.
+ */
+export const interpretUtterance = async (
+    provider: TranslationProvider,
+    recording: Blob,
+    speaker: ConversationParty,
+    listener: ConversationParty,
+    options: InterpretOptions = {},
+): Promise<InterpretedUtterance | null> => {
+    const { formality, glossary, signal } = options;
+    const audio = await trimSilence(recording);
+    if (!audio) return null;
+    const original = (await provider.transcribeAudio(audio, speaker.language, { signal })).trim();
+    if (!original) return null;
+    const translation = await provider.translateText(original, speaker.language, listener.language, {
+        formality,
+        glossary: glossary && findGlossaryTerms(glossary, original, speaker.language, listener.language),
+        signal,
+    });
+    const speech = await provider.textToSpeech(translation, listener.language, speaker.voice, { signal });
+    return { original, translation, audio: speech };
+};
+
+/**
+ * Serializes a conversation: as plain text, with each turn's original under its time and the
+ * translation indented below it, or as JSON with the languages and every turn.
+ */
+export const exportConversation = (turns: ConversationTurn[], parties: [ConversationParty, ConversationParty], format: ConversationExportFormat): string => {
+    if (format === 'json') {
+        const entries = turns.map(turn => ({
+            time: new Date(turn.time).toISOString(),
+            speaker: parties[turn.speaker].language,
+            original: turn.original,
+            translation: turn.translation,
+        }));
+        return `${JSON.stringify({ languages: parties.map(party => party.language), turns: entries }, null, 2)}\n`;
+    }
+    return turns
+        .map(turn => {
+            const time = new Date(turn.time).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+            return `[${time}] ${parties[turn.speaker].language}: ${turn.original}\n    → ${parties[1 - turn.speaker].language}: ${turn.translation}`;
+        })
+        .join('\n\n') + '\n';
+};
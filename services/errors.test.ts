@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { TranslationError, classifyError, kindFromStatus, withRetry } from './errors';
+
+// An error shaped like the ones the Gemini SDK throws.
+const apiError = (status: number, message: string) => Object.assign(new Error(message), { status });
+
+describe('classifyError', () => {
+    it('tells per-minute rate limits from an exhausted quota', () => {
+        expect(kindFromStatus(429, 'Resource has been exhausted (e.g. check quota).')).toBe('rate-limit');
+        expect(kindFromStatus(429, 'Quota exceeded for metric: generate_content_requests, limit: GenerateRequestsPerMinutePerProjectPerModel')).toBe('rate-limit');
+        expect(kindFromStatus(429, 'Quota exceeded for metric: generate_content_requests, limit: GenerateRequestsPerDayPerProjectPerModel')).toBe('quota');
+        expect(classifyError(new Error('RESOURCE_EXHAUSTED: daily limit reached'))).toMatchObject({ kind: 'quota', retryable: false });
+        expect(classifyError(apiError(429, 'Too many requests'))).toMatchObject({ kind: 'rate-limit', retryable: true });
+    });
+});
+
+describe('withRetry', () => {
+    const failing = (error: Error) => {
+        let attempts = 0;
+        const operation = async () => {
+            attempts++;
+            throw error;
+        };
+        return { operation, attempts: () => attempts };
+    };
+
+    it('retries rate limits', async () => {
+        const { operation, attempts } = failing(apiError(429, 'Too many requests'));
+        await expect(withRetry(operation, { retries: 2, baseDelayMs: 1 })).rejects.toMatchObject({ kind: 'rate-limit' });
+        expect(attempts()).toBe(3);
+    });
+
+    it('gives up at once when the quota is used up', async () => {
+        const { operation, attempts } = failing(new TranslationError('quota', 'Daily quota exhausted.'));
+        await expect(withRetry(operation, { retries: 2, baseDelayMs: 1 })).rejects.toMatchObject({ kind: 'quota' });
+        expect(attempts()).toBe(1);
+    });
+});
@@ -0,0 +1,135 @@
+import { sleep } from '../utils';
+import { isAbortError } from './translationProvider';
+
+export type TranslationErrorKind =
+    | 'rate-limit'
+    | 'quota'
+    | 'safety'
+    | 'empty-response'
+    | 'network'
+    | 'invalid-audio'
+    | 'auth'
+    | 'unknown';
+
+// Failures that can succeed on their own if the same request is simply sent again.
+// An exhausted quota is not one of them: it only resets after hours, long past any backoff.
+const RETRYABLE_KINDS: TranslationErrorKind[] = ['rate-limit', 'empty-response', 'network'];
+
+// What the user can do about each kind of failure.
+const ERROR_GUIDANCE: Record<TranslationErrorKind, string> = {
+    'rate-limit': 'Too many requests right now. Please wait a minute and retry.',
+    'quota': 'The usage quota is used up. Please try again once it resets, or check the API plan.',
+    'safety': 'The request was blocked by the safety filter. Please rephrase the text and try again.',
+    'empty-response': 'The model returned an empty result. Please retry, or rephrase the text if it keeps happening.',
+    'network': 'Could not reach the translation service. Check your connection and retry.',
+    'invalid-audio': 'The recording could not be processed. Check your microphone and the audio format, then record again.',
+    'auth': "The translation service rejected its credentials. Check the server's GEMINI_API_KEY.",
+    'unknown': '',
+};
+
+/**
+ * Whether a string names a known error kind, for kinds read from user text or a response body.
+ */
+export const isTranslationErrorKind = (value: string): value is TranslationErrorKind => Object.hasOwn(ERROR_GUIDANCE, value);
+
+/**
+ * An error from the translation service, tagged with what went wrong so the UI
+ * can suggest a fix and the retry logic knows whether another attempt can help.
+ */
+export class TranslationError extends Error {
+    kind: TranslationErrorKind;
+    /** Server-suggested wait before retrying, when known (e.g. from Retry-After). */
+    retryAfterMs?: number;
+
+    constructor(kind: TranslationErrorKind, message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'TranslationError';
+        this.kind = kind;
+        this.retryAfterMs = options.retryAfterMs;
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_KINDS.includes(this.kind);
+    }
+}
+
+// Gemini answers 429 RESOURCE_EXHAUSTED for both per-minute limits and used-up daily or billing quotas.
+const EXHAUSTED_QUOTA_PATTERN = /per[ _-]?day|daily|billing/i;
+
+const kindOfLimit = (message: string): TranslationErrorKind => (EXHAUSTED_QUOTA_PATTERN.test(message) ? 'quota' : 'rate-limit');
+
+/**
+ * Maps an HTTP status code from Gemini or the proxy to an error kind.
+ */
+export const kindFromStatus = (status: number, message = ''): TranslationErrorKind => {
+    if (status === 429) return kindOfLimit(message);
+    if (status === 401 || status === 403) return 'auth';
+    if (status === 400 && /api[ _]?key/i.test(message)) return 'auth';
+    if (status === 400 && /audio|mime/i.test(message)) return 'invalid-audio';
+    if (status === 408 || status >= 500) return 'network';
+    return 'unknown';
+};
+
+/**
+ * Turns anything thrown by the SDK, fetch or our own code into a TranslationError.
+ * Abort errors are returned untouched so callers can keep ignoring them.
+ */
+export const classifyError = (err: unknown): unknown => {
+    if (err instanceof TranslationError || isAbortError(err)) return err;
+    const message = err instanceof Error ? err.message : String(err);
+    // fetch() rejects with a TypeError when the request never got a response.
+    if (err instanceof TypeError) return new TranslationError('network', message, { cause: err });
+
+    const status = (err as { status?: unknown })?.status;
+    if (typeof status === 'number') {
+        return new TranslationError(kindFromStatus(status, message), message, { cause: err });
+    }
+    if (/RESOURCE_EXHAUSTED|quota/i.test(message)) return new TranslationError(kindOfLimit(message), message, { cause: err });
+    if (/ECONNRESET|ETIMEDOUT|ENOTFOUND|network|fetch failed/i.test(message)) return new TranslationError('network', message, { cause: err });
+    return new TranslationError('unknown', message, { cause: err });
+};
+
+export interface RetryOptions {
+    /** Number of retries after the first attempt. */
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    /** Extra veto on retrying, e.g. once a stream has already delivered output. */
+    shouldRetry?: (error: TranslationError) => boolean;
+}
+
+/**
+ * Runs an operation, retrying retryable failures with jittered exponential backoff.
+ * @param operation The request to run; it is called again from scratch on every attempt.
+ * @param options Retry count, backoff bounds and an abort signal that stops further attempts.
+ * @returns The operation's result.
+ * @throws The classified error once retries are exhausted or the failure is not retryable.
+ */
+export const withRetry = async <T>(operation: () => Promise<T>, { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, signal, shouldRetry }: RetryOptions = {}): Promise<T> => {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await operation();
+        } catch (err) {
+            const error = classifyError(err);
+            if (!(error instanceof TranslationError) || !error.retryable || attempt >= retries || signal?.aborted || shouldRetry?.(error) === false) {
+                throw error;
+            }
+            // "Full jitter": wait a random time up to the exponential bound, but never less than the server asked for.
+            const backoff = Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+            await sleep(Math.max(backoff, error.retryAfterMs ?? 0), signal);
+        }
+    }
+};
+
+/**
+ * Builds the message shown in the error banner: what failed, why, and what to do next.
+ * @param action What was being attempted, e.g. "Translation".
+ * @param err The caught error.
+ */
+export const describeError = (action: string, err: unknown): string => {
+    const error = classifyError(err);
+    const message = error instanceof Error ? error.message : String(error);
+    const guidance = error instanceof TranslationError ? ERROR_GUIDANCE[error.kind] : '';
+    return guidance ? `${action} failed: ${message} — ${guidance}` : `${action} failed: ${message}`;
+};
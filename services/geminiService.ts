@@ -1,104 +1,171 @@
-import { GoogleGenAI, Modality } from '@google/genai';
 import { blobToBase64 } from '../utils';
-
-const API_KEY = process.env.API_KEY;
-if (!API_KEY) {
-  // In a real app, you'd want to handle this more gracefully,
-  // maybe showing a message to the user.
-  throw new Error("API_KEY environment variable not set");
-}
-
-const ai = new GoogleGenAI({ apiKey: API_KEY });
+import { TranslationError, kindFromStatus, withRetry } from './errors';
+import { DetectedLanguage, PhoneticOptions, RequestOptions, SegmentTranslateOptions, SpeakerTurn, StructuredTranslateOptions, TranslateOptions, TranslationAlternative, TranslationProvider, TranslationResult, TranslationSettings } from './translationProvider';
 
 /**
- * Transcribes audio using a multimodal Gemini model.
- * @param audioBlob The audio data as a Blob.
- * @param sourceLanguage The language of the audio being transcribed.
- * @returns A promise that resolves to the transcribed text.
+ * Rebuilds the typed error the proxy reported for a failed response.
  */
-export const transcribeAudio = async (audioBlob: Blob, sourceLanguage: string): Promise<string> => {
-    const audioBase64 = await blobToBase64(audioBlob);
-    const audioPart = {
-      inlineData: {
-        mimeType: audioBlob.type || 'audio/webm',
-        data: audioBase64,
-      },
-    };
-    const textPart = {
-      text: `Transcribe this ${sourceLanguage} audio recording accurately. Provide only the transcribed text.`,
-    };
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: { parts: [audioPart, textPart] },
+const toTranslationError = async (response: Response): Promise<TranslationError> => {
+    const payload = await response.json().catch(() => null);
+    const message = payload?.error ?? `Request failed with status ${response.status}`;
+    const retryAfterSeconds = Number(response.headers.get('Retry-After'));
+    return new TranslationError(payload?.kind ?? kindFromStatus(response.status, message), message, {
+        retryAfterMs: retryAfterSeconds > 0 ? retryAfterSeconds * 1000 : undefined,
     });
-
-    return response.text.trim();
 };
 
 /**
- * Translates text from a source language to a target language.
- * @param text The text to translate.
- * @param sourceLanguage The language of the input text.
- * @param targetLanguage The language to translate into.
- * @returns A promise that resolves to the translated text.
+ * POSTs a JSON body to one of the proxy routes and returns the parsed response.
+ * Retryable failures (network, rate limits, empty responses) are retried with backoff.
+ * @throws A TranslationError describing what went wrong.
  */
-export const translateText = async (text: string, sourceLanguage: string, targetLanguage: string): Promise<string> => {
-    const prompt = `You are an expert translator. Translate the following ${sourceLanguage} text to ${targetLanguage}. Provide only the translation, without any additional explanations, labels, or pleasantries.\n\n${sourceLanguage} text: "${text}"`;
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
+const postJson = <T>(url: string, body: Record<string, unknown>, signal?: AbortSignal): Promise<T> => withRetry(async () => {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
     });
-    
-    return response.text.trim();
-};
+    if (!response.ok) throw await toTranslationError(response);
+    return await response.json() as T;
+}, { signal });
 
 /**
- * Generates a phonetic pronunciation guide for text.
- * @param text The text to get pronunciation for.
- * @param language The language of the text.
- * @returns A promise that resolves to the phonetic guide.
+ * POSTs a JSON body to a streaming proxy route and hands each newline-delimited JSON message to `onMessage`.
+ * Failures are only retried until the first message arrives, so callers never see output twice.
+ * @throws A TranslationError describing what went wrong.
  */
-export const getPhoneticTranscription = async (text: string, language: string): Promise<string> => {
-    const prompt = `You are a linguistic expert. Provide a simple, user-friendly phonetic pronunciation guide for the following ${language} text. Use common English letters and syllable breaks to represent the sounds. For example, for the Spanish 'hola', you could provide 'oh-lah'. Do not add any extra explanation, just the phonetic guide.\n\nText: "${text}"`;
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: prompt,
-    });
-    return response.text.trim();
+const postJsonStream = <T>(url: string, body: Record<string, unknown>, onMessage: (message: T) => void, signal?: AbortSignal): Promise<void> => {
+    let receivedAny = false;
+    return withRetry(async () => {
+        for await (const message of readJsonStream<T>(url, body, signal)) {
+            receivedAny = true;
+            onMessage(message);
+        }
+    }, { signal, shouldRetry: () => !receivedAny });
 };
 
+// Yields each newline-delimited JSON message of a streaming proxy response.
+async function* readJsonStream<T>(url: string, body: Record<string, unknown>, signal?: AbortSignal): AsyncGenerator<T> {
+    const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+        signal,
+    });
+    if (!response.ok || !response.body) throw await toTranslationError(response);
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        buffered += decoder.decode(value, { stream: !done });
+        const lines = buffered.split('\n');
+        buffered = done ? '' : lines.pop()!;
+        for (const line of lines) {
+            if (!line.trim()) continue;
+            const message = JSON.parse(line);
+            if (message.error) throw new TranslationError(message.kind ?? 'unknown', message.error);
+            yield message as T;
+        }
+        if (done) return;
+    }
+}
 
 /**
- * Converts text to speech using the Gemini TTS model.
- * @param text The text to convert to audio.
- * @param language The language of the text.
- * @param voiceName The desired voice for the TTS output.
- * @returns A promise that resolves to a base64 encoded audio string (raw PCM data).
+ * Creates a provider that talks to Gemini through the translation proxy in `server/`.
+ * The proxy holds the API key, so nothing secret is shipped to the browser.
+ * @param baseUrl Where the proxy routes are mounted.
+ * @returns A TranslationProvider backed by the proxy.
  */
-export const textToSpeech = async (text: string, language: string, voiceName: string): Promise<string> => {
-    // A more descriptive prompt can help the model generate more reliable audio,
-    // especially for short phrases or different languages.
-    const ttsPrompt = `Speak the following ${language} text clearly: ${text}`;
-    
-    const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: ttsPrompt }] }],
-        config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: {
-                voiceConfig: {
-                  prebuiltVoiceConfig: { voiceName: voiceName },
-                },
-            },
-        },
-    });
+export const createGeminiProvider = (baseUrl = '/api'): TranslationProvider => {
+    const detectLanguage = async (input: string | Blob, options: RequestOptions = {}): Promise<DetectedLanguage> => {
+        const body = typeof input === 'string'
+            ? { text: input }
+            : { audio: await blobToBase64(input), mimeType: input.type || 'audio/webm' };
+        return postJson<DetectedLanguage>(`${baseUrl}/detect-language`, body, options.signal);
+    };
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-    if (!base64Audio) {
-        console.error("TTS API Response Error:", response);
-        throw new Error("Failed to generate audio from text.");
-    }
-    return base64Audio;
+    const transcribeAudio = async (audioBlob: Blob, sourceLanguage: string, options: RequestOptions = {}): Promise<string> => {
+        const audio = await blobToBase64(audioBlob);
+        const { text } = await postJson<{ text: string }>(`${baseUrl}/transcribe`, {
+            audio,
+            mimeType: audioBlob.type || 'audio/webm',
+            sourceLanguage,
+        }, options.signal);
+        return text;
+    };
+
+    const transcribeWithSpeakers = async (audioBlob: Blob, sourceLanguage: string, options: RequestOptions = {}): Promise<SpeakerTurn[]> => {
+        const audio = await blobToBase64(audioBlob);
+        const { turns } = await postJson<{ turns: SpeakerTurn[] }>(`${baseUrl}/transcribe-speakers`, {
+            audio,
+            mimeType: audioBlob.type || 'audio/webm',
+            sourceLanguage,
+        }, options.signal);
+        return turns;
+    };
+
+    const translateText = async (text: string, sourceLanguage: string, targetLanguage: string, options: TranslateOptions = {}): Promise<string> => {
+        let translated = '';
+        await postJsonStream<{ partial?: string; text?: string }>(`${baseUrl}/translate`, { text, sourceLanguage, targetLanguage, formality: options.formality, glossary: options.glossary, context: options.context }, message => {
+            if (message.partial !== undefined) options.onPartial?.(message.partial);
+            if (message.text !== undefined) translated = message.text;
+        }, options.signal);
+        return translated;
+    };
+
+    const translateWithPhonetics = async (text: string, sourceLanguage: string, targetLanguage: string, options: StructuredTranslateOptions = {}): Promise<TranslationResult> => {
+        type Message = { partial?: string; translation?: string; result?: TranslationResult };
+        const body = {
+            text,
+            sourceLanguage,
+            targetLanguage,
+            formality: options.formality,
+            glossary: options.glossary,
+            includeRomanization: options.includeRomanization ?? false,
+            phoneticScheme: options.phoneticScheme,
+        };
+        let result: TranslationResult | undefined;
+        await postJsonStream<Message>(`${baseUrl}/translate-with-phonetics`, body, message => {
+            if (message.partial !== undefined) options.onPartial?.(message.partial);
+            if (message.translation !== undefined) options.onTranslation?.(message.translation);
+            if (message.result) result = message.result;
+        }, options.signal);
+        if (!result) throw new TranslationError('empty-response', 'The translation stream ended without a result.');
+        return result;
+    };
+
+    const translateSegments = async (segments: string[], sourceLanguage: string, targetLanguage: string, options: SegmentTranslateOptions = {}): Promise<string[]> => {
+        const body = {
+            segments,
+            sourceLanguage,
+            targetLanguage,
+            formality: options.formality,
+            glossary: options.glossary,
+            context: options.context,
+            maxLineLength: options.maxLineLength,
+        };
+        const { translations } = await postJson<{ translations: string[] }>(`${baseUrl}/translate-segments`, body, options.signal);
+        return translations;
+    };
+
+    const getAlternatives = async (text: string, sourceLanguage: string, targetLanguage: string, options: TranslationSettings = {}): Promise<TranslationAlternative[]> => {
+        const body = { text, sourceLanguage, targetLanguage, formality: options.formality, glossary: options.glossary };
+        const { alternatives } = await postJson<{ alternatives: TranslationAlternative[] }>(`${baseUrl}/alternatives`, body, options.signal);
+        return alternatives;
+    };
+
+    const getPhoneticTranscription = async (text: string, language: string, options: PhoneticOptions = {}): Promise<string> => {
+        const response = await postJson<{ text: string }>(`${baseUrl}/phonetic`, { text, language, scheme: options.scheme }, options.signal);
+        return response.text;
+    };
+
+    const textToSpeech = async (text: string, language: string, voiceName: string, options: RequestOptions = {}): Promise<string> => {
+        const { audio } = await postJson<{ audio: string }>(`${baseUrl}/tts`, { text, language, voiceName }, options.signal);
+        return audio;
+    };
+
+    return { detectLanguage, transcribeAudio, transcribeWithSpeakers, translateText, translateWithPhonetics, translateSegments, getAlternatives, getPhoneticTranscription, textToSpeech };
 };
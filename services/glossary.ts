@@ -0,0 +1,267 @@
+import { AUTO_DETECT_LANGUAGE, SUPPORTED_LANGUAGES } from '../constants';
+import { GlossaryTerm } from '../types';
+
+/** A pinned translation of one term for a language pair. */
+export interface GlossaryEntry {
+    sourceLanguage: string;
+    targetLanguage: string;
+    source: string;
+    target: string;
+}
+
+export interface Glossary {
+    entries: GlossaryEntry[];
+    /** Terms (brand names and the like) that must come out unchanged in every language. */
+    doNotTranslate: string[];
+}
+
+/** A glossary rule the translation did not follow. */
+export interface GlossaryViolation {
+    source: string;
+    expected: string;
+    doNotTranslate: boolean;
+}
+
+export const EMPTY_GLOSSARY: Glossary = { entries: [], doNotTranslate: [] };
+
+const STORAGE_KEY = 'glossary';
+const CSV_HEADER = ['source_language', 'target_language', 'source_term', 'target_term', 'do_not_translate'];
+
+const entryKey = (entry: GlossaryEntry) => `${entry.sourceLanguage}\u0000${entry.targetLanguage}\u0000${entry.source.toLowerCase()}`;
+
+/**
+ * Combines two glossaries; for the same term and language pair the second one wins.
+ */
+export const mergeGlossaries = (base: Glossary, incoming: Glossary): Glossary => {
+    const entries = new Map(base.entries.map(entry => [entryKey(entry), entry]));
+    incoming.entries.forEach(entry => entries.set(entryKey(entry), entry));
+    const doNotTranslate = new Map([...base.doNotTranslate, ...incoming.doNotTranslate].map(term => [term.toLowerCase(), term]));
+    return { entries: [...entries.values()], doNotTranslate: [...doNotTranslate.values()] };
+};
+
+/**
+ * Reads the saved glossary from localStorage.
+ * @returns The glossary, or an empty one if nothing is saved or storage is unavailable.
+ */
+export const loadGlossary = (): Glossary => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return EMPTY_GLOSSARY;
+        const parsed = JSON.parse(stored) as Partial<Glossary>;
+        return { entries: parsed.entries ?? [], doNotTranslate: parsed.doNotTranslate ?? [] };
+    } catch (e) {
+        console.error('Could not read the glossary from localStorage:', e);
+        return EMPTY_GLOSSARY;
+    }
+};
+
+export const saveGlossary = (glossary: Glossary) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(glossary));
+    } catch (e) {
+        console.error('Could not write the glossary to localStorage:', e);
+    }
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Scripts written without spaces between words, where a term can only be matched as a substring.
+const UNSPACED_SCRIPT = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+// Matches a whole term, not a piece of a longer word. Combining marks (Bengali vowel signs, hasanta)
+// count as part of a word, so a term followed by one is the start of a longer word, not a match.
+const containsTerm = (text: string, term: string) => {
+    const before = UNSPACED_SCRIPT.test(term[0] ?? '') ? '' : '(?<![\\p{L}\\p{M}\\p{N}])';
+    const after = UNSPACED_SCRIPT.test(term.slice(-1)) ? '' : '(?![\\p{L}\\p{M}\\p{N}])';
+    return new RegExp(`${before}${escapeRegExp(term)}${after}`, 'iu').test(text);
+};
+
+/**
+ * Picks the glossary rules that apply to a text, so only those are sent with the request.
+ * @param glossary The full glossary.
+ * @param text The text about to be translated.
+ * @param sourceLanguage The source language, or AUTO_DETECT_LANGUAGE to accept entries from any source.
+ * @param targetLanguage The target language.
+ * @returns The matching terms, longest first; do-not-translate terms map to themselves.
+ */
+export const findGlossaryTerms = (glossary: Glossary, text: string, sourceLanguage: string, targetLanguage: string): GlossaryTerm[] => {
+    const pinned = glossary.entries
+        .filter(entry => entry.targetLanguage === targetLanguage && (entry.sourceLanguage === sourceLanguage || sourceLanguage === AUTO_DETECT_LANGUAGE))
+        .map(({ source, target }) => ({ source, target }));
+    const kept = glossary.doNotTranslate.map(term => ({ source: term, target: term }));
+
+    // A pinned translation takes precedence over a do-not-translate entry for the same term.
+    const unique = new Map<string, GlossaryTerm>();
+    for (const term of [...pinned, ...kept]) {
+        const key = term.source.toLowerCase();
+        if (term.source.trim() && !unique.has(key) && containsTerm(text, term.source)) unique.set(key, term);
+    }
+    return [...unique.values()].sort((a, b) => b.source.length - a.source.length);
+};
+
+/**
+ * Flags glossary rules the translation broke: an expected rendering that is missing from the output.
+ * @param translation The translated text.
+ * @param terms The rules that were sent with the request.
+ * @returns One violation per broken rule.
+ */
+export const checkGlossary = (translation: string, terms: GlossaryTerm[]): GlossaryViolation[] =>
+    terms
+        .filter(term => !containsTerm(translation, term.target))
+        .map(term => ({ source: term.source, expected: term.target, doNotTranslate: term.source === term.target }));
+
+// Quotes a CSV field when it contains a separator, quote or line break.
+const toCsvField = (value: string) => (/[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+const parseCsvRows = (csv: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < csv.length; i++) {
+        const char = csv[i];
+        if (quoted) {
+            if (char === '"' && csv[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && csv[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+    if (field || row.length) rows.push([...row, field]);
+    return rows.filter(cells => cells.some(cell => cell.trim()));
+};
+
+/**
+ * Serializes a glossary as CSV with a header row. Do-not-translate terms have no languages or target.
+ */
+export const glossaryToCsv = (glossary: Glossary): string => {
+    const rows = [
+        ...glossary.entries.map(entry => [entry.sourceLanguage, entry.targetLanguage, entry.source, entry.target, '']),
+        ...glossary.doNotTranslate.map(term => ['', '', term, '', 'yes']),
+    ];
+    return [CSV_HEADER, ...rows].map(row => row.map(toCsvField).join(',')).join('\r\n') + '\r\n';
+};
+
+/**
+ * Parses a CSV glossary written by glossaryToCsv (columns are matched by header name).
+ * @throws An Error naming what is missing when the header or a row is unusable.
+ */
+export const parseGlossaryCsv = (csv: string): Glossary => {
+    const [header, ...rows] = parseCsvRows(csv.replace(/^\uFEFF/, ''));
+    const columns = header?.map(cell => cell.trim().toLowerCase()) ?? [];
+    const index = Object.fromEntries(CSV_HEADER.map(name => [name, columns.indexOf(name)]));
+    if (index.source_term < 0) throw new Error('The CSV file has no "source_term" column.');
+
+    const glossary: Glossary = { entries: [], doNotTranslate: [] };
+    rows.forEach((row, i) => {
+        const cell = (name: string) => (index[name] >= 0 ? row[index[name]]?.trim() ?? '' : '');
+        const source = cell('source_term');
+        if (!source) return;
+        if (/^(yes|true|1)$/i.test(cell('do_not_translate'))) {
+            glossary.doNotTranslate.push(source);
+            return;
+        }
+        const entry = { sourceLanguage: cell('source_language'), targetLanguage: cell('target_language'), source, target: cell('target_term') };
+        if (!entry.sourceLanguage || !entry.targetLanguage || !entry.target) {
+            throw new Error(`Row ${i + 2} needs a source language, target language and target term.`);
+        }
+        glossary.entries.push(entry);
+    });
+    return mergeGlossaries(EMPTY_GLOSSARY, glossary);
+};
+
+const languageCode = (name: string) => SUPPORTED_LANGUAGES.find(lang => lang.name === name)?.code ?? name;
+const languageName = (code: string) => SUPPORTED_LANGUAGES.find(lang => lang.code.toLowerCase() === code.toLowerCase())?.name ?? code;
+
+const escapeXml = (text: string) =>
+    text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const langSet = (language: string, term: string) =>
+    `        <langSet xml:lang="${escapeXml(languageCode(language))}"><tig><term>${escapeXml(term)}</term></tig></langSet>`;
+
+/**
+ * Serializes a glossary as TBX. Each entry is a termEntry whose first langSet is the source term;
+ * do-not-translate terms carry a "doNotTranslate" descrip and a single langSet.
+ */
+export const glossaryToTbx = (glossary: Glossary): string => {
+    const entries = [
+        ...glossary.entries.map((entry, i) => [
+            `      <termEntry id="t${i + 1}">`,
+            langSet(entry.sourceLanguage, entry.source),
+            langSet(entry.targetLanguage, entry.target),
+            '      </termEntry>',
+        ].join('\n')),
+        ...glossary.doNotTranslate.map((term, i) => [
+            `      <termEntry id="dnt${i + 1}">`,
+            '        <descrip type="doNotTranslate">yes</descrip>',
+            `        <langSet xml:lang="und"><tig><term>${escapeXml(term)}</term></tig></langSet>`,
+            '      </termEntry>',
+        ].join('\n')),
+    ];
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<martif type="TBX" xml:lang="en">',
+        '  <martifHeader><fileDesc><sourceDesc><p>Global Language Bridge glossary</p></sourceDesc></fileDesc></martifHeader>',
+        '  <text>',
+        '    <body>',
+        ...entries,
+        '    </body>',
+        '  </text>',
+        '</martif>',
+        '',
+    ].join('\n');
+};
+
+/**
+ * Parses a TBX glossary (TBX 2008 termEntry/langSet or TBX v3 conceptEntry/langSec).
+ * The first language of each entry is taken as the source; every other language becomes a target.
+ * @throws An Error if the file is not well-formed XML.
+ */
+export const parseGlossaryTbx = (xml: string): Glossary => {
+    const document = new DOMParser().parseFromString(xml, 'application/xml');
+    if (document.getElementsByTagName('parsererror').length > 0) throw new Error('The TBX file is not valid XML.');
+
+    const glossary: Glossary = { entries: [], doNotTranslate: [] };
+    const concepts = [...Array.from(document.getElementsByTagName('termEntry')), ...Array.from(document.getElementsByTagName('conceptEntry'))];
+    for (const concept of concepts) {
+        const languages = [...Array.from(concept.getElementsByTagName('langSet')), ...Array.from(concept.getElementsByTagName('langSec'))]
+            .map(element => ({
+                language: languageName(element.getAttribute('xml:lang') ?? ''),
+                term: element.getElementsByTagName('term')[0]?.textContent?.trim() ?? '',
+            }))
+            .filter(({ term }) => term);
+        if (languages.length === 0) continue;
+
+        const isDoNotTranslate = Array.from(concept.getElementsByTagName('descrip'))
+            .some(descrip => descrip.getAttribute('type') === 'doNotTranslate' && /^(yes|true)$/i.test(descrip.textContent?.trim() ?? ''));
+        if (isDoNotTranslate) {
+            glossary.doNotTranslate.push(languages[0].term);
+            continue;
+        }
+        const [source, ...targets] = languages;
+        targets.forEach(target => glossary.entries.push({
+            sourceLanguage: source.language,
+            targetLanguage: target.language,
+            source: source.term,
+            target: target.term,
+        }));
+    }
+    return mergeGlossaries(EMPTY_GLOSSARY, glossary);
+};
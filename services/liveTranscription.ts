@@ -0,0 +1,83 @@
+import { TranslationProvider, isAbortError } from './translationProvider';
+
+/**
+ * Transcription of a recording while it is still going, for a live preview. The microphone
+ * stream is recorded in short windows, each by its own MediaRecorder, so every window is a
+ * complete file the backend can decode on its own (WebM timeslices after the first have no header).
+ */
+
+export interface LiveTranscriberOptions {
+    provider: TranslationProvider;
+    stream: MediaStream;
+    /** The spoken language, or null to detect it from the first window. */
+    language: string | null;
+    /** Called with the text transcribed so far, after every window. */
+    onPartial: (text: string) => void;
+    /** Length of each window; shorter feels more live but cuts more words in half. */
+    windowMs?: number;
+}
+
+export interface LiveTranscriber {
+    /** Stops recording windows and cancels the requests still in flight. */
+    stop: () => void;
+}
+
+const DEFAULT_WINDOW_MS = 4000;
+// Shown in place of a window whose request failed; the final transcription fills the gap.
+const MISSING_WINDOW = '…';
+
+/**
+ * Starts transcribing a microphone stream window by window. Windows are transcribed in order,
+ * one request at a time; a failed request leaves a gap in the preview but never stops the recording.
+ */
+export const createLiveTranscriber = ({ provider, stream, language, onPartial, windowMs = DEFAULT_WINDOW_MS }: LiveTranscriberOptions): LiveTranscriber => {
+    const controller = new AbortController();
+    const { signal } = controller;
+    const texts: string[] = [];
+    let spokenLanguage = language;
+    let queue = Promise.resolve();
+    let recorder: MediaRecorder | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const transcribeWindow = async (blob: Blob, index: number) => {
+        try {
+            spokenLanguage ??= (await provider.detectLanguage(blob, { signal })).language;
+            texts[index] = (await provider.transcribeAudio(blob, spokenLanguage, { signal })).trim();
+        } catch (err) {
+            if (signal.aborted || isAbortError(err)) return;
+            texts[index] = MISSING_WINDOW;
+        }
+        if (!signal.aborted) onPartial(texts.filter(Boolean).join(' '));
+    };
+
+    const startWindow = () => {
+        const index = texts.length;
+        texts.push('');
+        const chunks: Blob[] = [];
+        const windowRecorder = new MediaRecorder(stream);
+        windowRecorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        windowRecorder.onstop = () => {
+            if (signal.aborted || chunks.length === 0) return;
+            const blob = new Blob(chunks, { type: windowRecorder.mimeType || 'audio/webm' });
+            queue = queue.then(() => transcribeWindow(blob, index));
+        };
+        windowRecorder.start();
+        recorder = windowRecorder;
+        timer = setTimeout(() => {
+            windowRecorder.stop();
+            if (!signal.aborted) startWindow();
+        }, windowMs);
+    };
+
+    startWindow();
+
+    return {
+        stop: () => {
+            controller.abort();
+            clearTimeout(timer);
+            if (recorder?.state === 'recording') recorder.stop();
+        },
+    };
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { checkPlaceholders, parseJsonCatalog, translateCatalog } from './localization';
+import { createMockProvider } from './mockProvider';
+
+const check = (source: string, translation: string) => checkPlaceholders({ id: 'id', label: 'label', source }, translation);
+
+const PLURAL = 'You have {count, plural, one {# item} other {# items}} in {place}.';
+
+describe('checkPlaceholders', () => {
+    it('accepts a translation that keeps placeholders and markup', () => {
+        expect(check('Hello {name}, you have <b>%d</b> messages', 'হ্যালো {name}, আপনার <b>%d</b>টি বার্তা আছে')).toBeNull();
+    });
+
+    it('reports missing and unexpected simple placeholders', () => {
+        expect(check('Hello {name}', 'হ্যালো {nam}')).toMatchObject({ missing: ['{name}'], unexpected: ['{nam}'] });
+    });
+
+    it('accepts an ICU plural with the same keys and "#" usage', () => {
+        expect(check(PLURAL, '{place}-এ আপনার {count, plural, one {#টি আইটেম} other {#টি আইটেম}} আছে।')).toBeNull();
+    });
+
+    it('reports a translated category keyword', () => {
+        const issue = check(PLURAL, '{place}-এ আপনার {count, plural, এক {#টি আইটেম} other {#টি আইটেম}} আছে।');
+        expect(issue?.missing).toContain('{count, plural, one {…}}');
+        expect(issue?.unexpected).toContain('{count, plural, এক {…}}');
+    });
+
+    it('reports a translated argument type', () => {
+        const issue = check(PLURAL, '{place}-এ আপনার {count, বহুবচন, one {#টি} other {#টি}} আছে।');
+        expect(issue?.missing).toEqual(expect.arrayContaining(['{count, plural,', '{count, plural}', '{count, plural, other {…}}']));
+    });
+
+    it('reports a dropped category', () => {
+        expect(check(PLURAL, '{place}-এ আপনার {count, plural, other {#টি আইটেম}} আছে।')).toMatchObject({
+            missing: ['{count, plural, one {…}}', '# in {count, plural, one}'],
+            unexpected: [],
+        });
+    });
+
+    it('reports a lost "#"', () => {
+        expect(check(PLURAL, '{place}-এ আপনার {count, plural, one {একটি আইটেম} other {#টি আইটেম}} আছে।')).toMatchObject({
+            missing: ['# in {count, plural, one}'],
+            unexpected: [],
+        });
+    });
+
+    it('allows plural categories the target language needs', () => {
+        expect(check(PLURAL, 'В {place} {count, plural, one {# товар} few {# товара} many {# товаров} other {# товара}}.')).toBeNull();
+    });
+
+    it('checks select keys exactly', () => {
+        const source = '{gender, select, female {She} male {He} other {They}} replied';
+        expect(check(source, '{gender, select, female {তিনি} male {তিনি} other {তাঁরা}} উত্তর দিয়েছেন')).toBeNull();
+        expect(check(source, '{gender, select, মহিলা {তিনি} male {তিনি} other {তাঁরা}} উত্তর দিয়েছেন')).toMatchObject({
+            missing: ['{gender, select, female {…}}'],
+            unexpected: ['{gender, select, মহিলা {…}}'],
+        });
+    });
+
+    it('checks nested arguments inside branches', () => {
+        const source = '{gender, select, female {{count, plural, one {# photo} other {# photos}}} other {{count, plural, other {# photos}}}}';
+        const translation = '{gender, select, female {{count, plural, one {একটি ছবি} other {#টি ছবি}}} other {{count, plural, other {#টি ছবি}}}}';
+        expect(check(source, translation)).toMatchObject({
+            missing: ['{gender, select, female} → # in {count, plural, one}'],
+            unexpected: [],
+        });
+    });
+
+    it('ignores braces quoted with apostrophes', () => {
+        expect(check("Use '{count, plural, one {x}}' literally", "'{count, plural, one {x}}' আক্ষরিকভাবে ব্যবহার করুন")).toBeNull();
+    });
+});
+
+describe('translateCatalog', () => {
+    const provider = createMockProvider({ latencyMs: 0 });
+    const catalog = parseJsonCatalog(JSON.stringify({ greeting: 'Hello {name}', menu: { open: 'Open' } }));
+
+    it('translates every string by id', async () => {
+        const { translations, issues } = await translateCatalog(provider, catalog, 'English', 'Bengali');
+        expect([...translations.values()]).toEqual(['[Bengali] Hello {name}', '[Bengali] Open']);
+        expect(issues).toEqual([]);
+    });
+
+    it('fails when the provider returns fewer translations than strings', async () => {
+        const short = { ...provider, translateSegments: async (segments: string[]) => segments.slice(1) };
+        await expect(translateCatalog(short, catalog, 'English', 'Bengali')).rejects.toMatchObject({ kind: 'empty-response' });
+    });
+});
@@ -0,0 +1,458 @@
+import { SUPPORTED_LANGUAGES } from '../constants';
+import { TranslationSettings, TranslationProvider } from './translationProvider';
+import { ChunkProgressCallback } from './longText';
+import { TranslationError } from './errors';
+
+/**
+ * Translation of localization catalogs: nested i18n JSON and gettext PO files.
+ * Only the values are translated; keys, structure, placeholders and markup are kept,
+ * and every translation is checked for placeholders that went missing or changed.
+ */
+
+export type LocalizationFormat = 'json' | 'po';
+
+/** One translatable string in a catalog. */
+export interface LocalizationString {
+    /** Unique within the catalog; translations are keyed by it. */
+    id: string;
+    /** What developers know the string by: a JSON path, or the PO msgid (with its context). */
+    label: string;
+    source: string;
+}
+
+export interface LocalizationCatalog {
+    format: LocalizationFormat;
+    strings: LocalizationString[];
+    /** Strings left alone because the file already translates them (PO only). */
+    alreadyTranslated: number;
+    /**
+     * Writes the catalog back out in its own format.
+     * @param translations Translated text by string id; strings without one keep their original state.
+     * @param targetLanguage The language the catalog is now in (sets the PO Language and Plural-Forms headers).
+     */
+    serialize(translations: Map<string, string>, targetLanguage: string): string;
+}
+
+/** A translation whose placeholders do not match its source. */
+export interface PlaceholderIssue {
+    id: string;
+    label: string;
+    /** Placeholders (and ICU plural/select structure) of the source that are missing or were altered in the translation. */
+    missing: string[];
+    /** Placeholders in the translation that the source does not have. */
+    unexpected: string[];
+}
+
+export interface LocalizationResult {
+    translations: Map<string, string>;
+    issues: PlaceholderIssue[];
+}
+
+// Strings per request (the proxy accepts up to 100 segments).
+const BATCH_SIZE = 40;
+
+// {{name}}, {name}, {0}, ICU argument heads such as "{count, plural,", printf (%s, %1$d, %(name)s, %@), <tags>, $t(nested.key).
+const PLACEHOLDER_PATTERN = new RegExp([
+    /\{\{\s*[\w.-]+\s*\}\}/.source,
+    /\{\s*[\w.-]+\s*\}/.source,
+    /\{\s*[\w.-]+\s*,\s*(?:plural|selectordinal|select|number|date|time)\s*,?/.source,
+    /%(?:\(\w+\))?(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?[sdifuxXeEgGcoa@%]/.source,
+    /<\/?[a-zA-Z][^>]*>/.source,
+    /\$t\([^)]*\)/.source,
+].join('|'), 'g');
+
+/**
+ * Lists the placeholders and markup in a string, in order.
+ */
+export const findPlaceholders = (text: string): string[] => text.match(PLACEHOLDER_PATTERN) ?? [];
+
+// Multiset difference: items of `a` not matched by an item of `b`.
+const difference = (a: string[], b: string[]) => {
+    const remaining = [...b];
+    return a.filter(item => {
+        const index = remaining.indexOf(item);
+        if (index < 0) return true;
+        remaining.splice(index, 1);
+        return false;
+    });
+};
+
+// --- ICU MessageFormat structure ---
+
+const ICU_COMPLEX_ARGUMENT = /^\s*([\w.-]+)\s*,\s*(plural|selectordinal|select)\s*,/;
+// The CLDR plural categories; a translation may need ones its source does not use (Russian "few", "many").
+const PLURAL_CATEGORIES = new Set(['zero', 'one', 'two', 'few', 'many', 'other']);
+
+/** One piece of a message's ICU structure: an argument, one of its keys, or a "#" in a plural branch. */
+interface IcuItem {
+    /** Readable description, e.g. "{count, plural, one {…}}" or "# in {count, plural, one}". */
+    text: string;
+    /** Part of a plural category the source does not need to have. */
+    languageSpecific: boolean;
+}
+
+// In ICU, an apostrophe before { } # | starts quoted literal text up to the next apostrophe; '' is a literal apostrophe.
+// Returns the index of the last character of the quoted run starting at `index`, or `index` if it is not one.
+const skipQuoted = (text: string, index: number): number => {
+    if (text[index] !== "'") return index;
+    if (text[index + 1] === "'") return index + 1;
+    if (!/[{}#|]/.test(text[index + 1] ?? '')) return index;
+    const end = text.indexOf("'", index + 1);
+    return end < 0 ? text.length - 1 : end;
+};
+
+// Index of the brace that closes the one at `open`; -1 if the braces are unbalanced.
+const findClosingBrace = (text: string, open: number): number => {
+    let depth = 0;
+    for (let i = open; i < text.length; i++) {
+        i = skipQuoted(text, i);
+        if (text[i] === '{') depth++;
+        else if (text[i] === '}' && --depth === 0) return i;
+    }
+    return -1;
+};
+
+// Whether a plural branch uses "#" itself, outside any nested argument.
+const hasOwnHash = (message: string): boolean => {
+    for (let i = 0; i < message.length; i++) {
+        i = skipQuoted(message, i);
+        if (message[i] === '#') return true;
+        if (message[i] === '{') {
+            const close = findClosingBrace(message, i);
+            if (close < 0) return false;
+            i = close;
+        }
+    }
+    return false;
+};
+
+/** What scanning a message's ICU arguments finds. */
+interface IcuScan {
+    items: IcuItem[];
+    /** Positions of the braces around plural and select branches, which are not placeholders themselves. */
+    branchBraces: number[];
+}
+
+/**
+ * Lists the plural, selectordinal and select arguments of an ICU message with their keys and
+ * "#" usage, nested branches included, so a translated keyword, a dropped branch or a lost "#" shows up.
+ */
+const scanIcu = (message: string, scan: IcuScan = { items: [], branchBraces: [] }, context = '', languageSpecific = false, offset = 0): IcuScan => {
+    for (let i = 0; i < message.length; i++) {
+        i = skipQuoted(message, i);
+        if (message[i] !== '{') continue;
+        const close = findClosingBrace(message, i);
+        if (close < 0) break;
+        const bodyStart = i + 1;
+        const body = message.slice(bodyStart, close);
+        i = close;
+        const head = body.match(ICU_COMPLEX_ARGUMENT);
+        if (!head) continue;
+
+        const [, name, type] = head;
+        scan.items.push({ text: `${context}{${name}, ${type}}`, languageSpecific });
+        const optionsStart = bodyStart + head[0].length;
+        const options = body.slice(head[0].length);
+        let position = 0;
+        while (position < options.length) {
+            const option = options.slice(position).match(/^\s*(?:offset:\s*\d+\s*)?([^\s{}]+)\s*\{/);
+            if (!option) break;
+            const open = position + option[0].length - 1;
+            const end = findClosingBrace(options, open);
+            if (end < 0) break;
+            const key = option[1];
+            const branch = options.slice(open + 1, end);
+            const optional = languageSpecific || (type !== 'select' && PLURAL_CATEGORIES.has(key));
+            scan.branchBraces.push(offset + optionsStart + open, offset + optionsStart + end);
+            scan.items.push({ text: `${context}{${name}, ${type}, ${key} {…}}`, languageSpecific: optional });
+            if (type !== 'select' && hasOwnHash(branch)) scan.items.push({ text: `${context}# in {${name}, ${type}, ${key}}`, languageSpecific: optional });
+            scanIcu(branch, scan, `${context}{${name}, ${type}, ${key}} → `, optional, offset + optionsStart + open + 1);
+            position = end + 1;
+        }
+    }
+    return scan;
+};
+
+// The placeholders of a message, not counting the braces around ICU branches ("other {Items}" has no {Items} placeholder).
+const findMessagePlaceholders = (message: string, { branchBraces }: IcuScan): string[] => {
+    const masked = [...message];
+    branchBraces.forEach(index => {
+        masked[index] = ' ';
+    });
+    return findPlaceholders(masked.join(''));
+};
+
+/**
+ * Compares the placeholders of a translation with those of its source, including the structure of
+ * ICU plural and select arguments: argument types, branch keys and "#" usage must match. Extra
+ * plural categories in the translation are allowed, since the target language may need them.
+ * @returns The issue, or null if every placeholder survived unchanged.
+ */
+export const checkPlaceholders = (string: LocalizationString, translation: string): PlaceholderIssue | null => {
+    const sourceScan = scanIcu(string.source);
+    const translatedScan = scanIcu(translation);
+    const source = findMessagePlaceholders(string.source, sourceScan);
+    const translated = findMessagePlaceholders(translation, translatedScan);
+    const sourceStructure = sourceScan.items;
+    const translatedStructure = translatedScan.items;
+    const allowed = new Set(translatedStructure.filter(item => item.languageSpecific).map(item => item.text));
+    const missing = [
+        ...difference(source, translated),
+        ...difference(sourceStructure.map(item => item.text), translatedStructure.map(item => item.text)),
+    ];
+    const unexpected = [
+        ...difference(translated, source),
+        ...difference(translatedStructure.map(item => item.text), sourceStructure.map(item => item.text)).filter(text => !allowed.has(text)),
+    ];
+    return missing.length || unexpected.length ? { id: string.id, label: string.label, missing, unexpected } : null;
+};
+
+// --- i18n JSON ---
+
+type JsonValue = string | number | boolean | null | JsonValue[] | { [key: string]: JsonValue };
+
+/**
+ * Parses a nested i18n JSON file (i18next, vue-i18n, FormatJS and similar). Every string value is
+ * translatable; numbers, booleans and keys are kept. The output keeps the file's indentation.
+ * @throws An Error if the file is not a JSON object.
+ */
+export const parseJsonCatalog = (content: string): LocalizationCatalog => {
+    const root = JSON.parse(content.replace(/^\uFEFF/, '')) as JsonValue;
+    if (!root || typeof root !== 'object' || Array.isArray(root)) throw new Error('The JSON file must contain an object of messages.');
+    const indent = content.match(/^[{[]\s*\n([ \t]+)/)?.[1] ?? 2;
+
+    const strings: LocalizationString[] = [];
+    const walk = (value: JsonValue, path: string[]) => {
+        if (typeof value === 'string') {
+            if (value.trim()) strings.push({ id: JSON.stringify(path), label: path.join('.'), source: value });
+        } else if (value && typeof value === 'object') {
+            Object.entries(value).forEach(([key, child]) => walk(child, [...path, key]));
+        }
+    };
+    walk(root, []);
+
+    const serialize = (translations: Map<string, string>) => {
+        const rebuild = (value: JsonValue, path: string[]): JsonValue => {
+            if (typeof value === 'string') return translations.get(JSON.stringify(path)) ?? value;
+            if (Array.isArray(value)) return value.map((child, i) => rebuild(child, [...path, String(i)]));
+            if (value && typeof value === 'object') {
+                return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, rebuild(child, [...path, key])]));
+            }
+            return value;
+        };
+        return JSON.stringify(rebuild(root, []), null, indent) + (content.endsWith('\n') ? '\n' : '');
+    };
+
+    return { format: 'json', strings, alreadyTranslated: 0, serialize };
+};
+
+// --- gettext PO ---
+
+interface PoEntry {
+    /** Comment lines (translator, extracted, reference, flags, previous, obsolete), verbatim. */
+    comments: string[];
+    msgctxt?: string;
+    msgid?: string;
+    msgidPlural?: string;
+    msgstr: string[];
+}
+
+// gettext Plural-Forms by language code; languages not listed use the English rule.
+const PLURAL_FORMS: Record<string, string> = {
+    ar: 'nplurals=6; plural=(n==0 ? 0 : n==1 ? 1 : n==2 ? 2 : n%100>=3 && n%100<=10 ? 3 : n%100>=11 ? 4 : 5);',
+    cs: 'nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);',
+    fil: 'nplurals=2; plural=(n > 1);',
+    fr: 'nplurals=2; plural=(n > 1);',
+    hr: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    id: 'nplurals=1; plural=0;',
+    ja: 'nplurals=1; plural=0;',
+    ko: 'nplurals=1; plural=0;',
+    lt: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    lv: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n != 0 ? 1 : 2);',
+    ms: 'nplurals=1; plural=0;',
+    pl: 'nplurals=3; plural=(n==1 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    ro: 'nplurals=3; plural=(n==1 ? 0 : (n==0 || (n%100 > 0 && n%100 < 20)) ? 1 : 2);',
+    ru: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    sk: 'nplurals=3; plural=(n==1 ? 0 : n>=2 && n<=4 ? 1 : 2);',
+    sl: 'nplurals=4; plural=(n%100==1 ? 0 : n%100==2 ? 1 : n%100==3 || n%100==4 ? 2 : 3);',
+    th: 'nplurals=1; plural=0;',
+    uk: 'nplurals=3; plural=(n%10==1 && n%100!=11 ? 0 : n%10>=2 && n%10<=4 && (n%100<10 || n%100>=20) ? 1 : 2);',
+    vi: 'nplurals=1; plural=0;',
+    'zh-CN': 'nplurals=1; plural=0;',
+    'zh-TW': 'nplurals=1; plural=0;',
+};
+const DEFAULT_PLURAL_FORMS = 'nplurals=2; plural=(n != 1);';
+
+const unescapePo = (text: string) =>
+    text.replace(/\\(.)/g, (_, escape: string) => ({ n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\' } as Record<string, string>)[escape] ?? escape);
+
+const escapePo = (text: string) =>
+    text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\t/g, '\\t').replace(/\r/g, '\\r').replace(/\n/g, '\\n');
+
+// Writes `keyword "value"`, splitting multi-line values after each "\n" the way gettext tools do.
+const formatPoField = (keyword: string, value: string) => {
+    const lines = value.split(/(?<=\n)/);
+    if (lines.length < 2) return `${keyword} "${escapePo(value)}"`;
+    return [`${keyword} ""`, ...lines.map(line => `"${escapePo(line)}"`)].join('\n');
+};
+
+const parsePoEntries = (content: string): PoEntry[] =>
+    content
+        .replace(/^\uFEFF/, '')
+        .replace(/\r\n?/g, '\n')
+        .trim()
+        .split(/\n[ \t]*\n/)
+        .map((block, blockIndex) => {
+            const entry: PoEntry = { comments: [], msgstr: [] };
+            let setField: ((value: string) => void) | null = null;
+            block.split('\n').forEach((rawLine, lineIndex) => {
+                const line = rawLine.trim();
+                if (line.startsWith('#')) {
+                    entry.comments.push(line);
+                    return;
+                }
+                const keyword = line.match(/^(msgctxt|msgid_plural|msgid|msgstr(?:\[(\d+)\])?)\s+"(.*)"$/);
+                const continuation = line.match(/^"(.*)"$/);
+                if (keyword) {
+                    const [, name, index, value] = keyword;
+                    if (name === 'msgctxt') setField = part => { entry.msgctxt = (entry.msgctxt ?? '') + part; };
+                    else if (name === 'msgid') setField = part => { entry.msgid = (entry.msgid ?? '') + part; };
+                    else if (name === 'msgid_plural') setField = part => { entry.msgidPlural = (entry.msgidPlural ?? '') + part; };
+                    else {
+                        const form = Number(index ?? 0);
+                        setField = part => { entry.msgstr[form] = (entry.msgstr[form] ?? '') + part; };
+                    }
+                    setField(unescapePo(value));
+                } else if (continuation && setField) {
+                    setField(unescapePo(continuation[1]));
+                } else if (line) {
+                    throw new Error(`Line ${lineIndex + 1} of entry ${blockIndex + 1} is not valid PO syntax: ${line}`);
+                }
+            });
+            return entry;
+        });
+
+// Sets a "Name: value" line in the PO header, adding it if missing.
+const setHeaderField = (header: string, name: string, value: string) => {
+    const line = `${name}: ${value}\n`;
+    const pattern = new RegExp(`^${name}:.*(?:\\n|$)`, 'm');
+    return pattern.test(header) ? header.replace(pattern, line) : header + line;
+};
+
+/**
+ * Parses a gettext PO catalog. Entries that already have a translation are kept as they are;
+ * plural entries are translated from both msgid and msgid_plural.
+ * @throws An Error naming the first line that is not valid PO syntax.
+ */
+export const parsePoCatalog = (content: string): LocalizationCatalog => {
+    const entries = parsePoEntries(content);
+    const entryId = (entry: PoEntry) => JSON.stringify([entry.msgctxt ?? null, entry.msgid]);
+    const isTranslatable = (entry: PoEntry) => !!entry.msgid && !entry.comments.some(comment => comment.startsWith('#~'));
+    const isTranslated = (entry: PoEntry) => entry.msgstr.some(form => form);
+
+    const strings: LocalizationString[] = [];
+    let alreadyTranslated = 0;
+    for (const entry of entries.filter(isTranslatable)) {
+        if (isTranslated(entry)) {
+            alreadyTranslated++;
+            continue;
+        }
+        const label = entry.msgctxt ? `${entry.msgctxt} | ${entry.msgid}` : entry.msgid!;
+        strings.push({ id: entryId(entry), label, source: entry.msgid! });
+        if (entry.msgidPlural !== undefined) strings.push({ id: `${entryId(entry)}#plural`, label: `${label} (plural)`, source: entry.msgidPlural });
+    }
+
+    const serialize = (translations: Map<string, string>, targetLanguage: string) => {
+        const code = SUPPORTED_LANGUAGES.find(lang => lang.name === targetLanguage)?.code ?? targetLanguage;
+        const pluralForms = PLURAL_FORMS[code] ?? DEFAULT_PLURAL_FORMS;
+        const pluralCount = Number(pluralForms.match(/nplurals=(\d+)/)![1]);
+
+        const blocks = entries.map(entry => {
+            let { comments, msgstr } = entry;
+            const singular = translations.get(entryId(entry));
+            if (entry.msgid === '' && !entry.msgctxt) {
+                msgstr = [setHeaderField(setHeaderField(msgstr[0] ?? '', 'Language', code), 'Plural-Forms', pluralForms)];
+            } else if (singular !== undefined && isTranslatable(entry)) {
+                if (entry.msgidPlural === undefined) {
+                    msgstr = [singular];
+                } else {
+                    // One form: the plural reads best. Two: singular, plural. More: a draft that a translator
+                    // has to finish, so the entry is marked fuzzy.
+                    const plural = translations.get(`${entryId(entry)}#plural`) ?? singular;
+                    msgstr = pluralCount === 1 ? [plural] : Array.from({ length: pluralCount }, (_, i) => (i === 0 ? singular : plural));
+                    if (pluralCount > 2) {
+                        const flags = comments.find(comment => comment.startsWith('#,'));
+                        comments = flags
+                            ? comments.map(comment => (comment === flags && !flags.includes('fuzzy') ? `${flags}, fuzzy` : comment))
+                            : [...comments, '#, fuzzy'];
+                    }
+                }
+            }
+
+            const lines = [...comments];
+            if (entry.msgctxt !== undefined) lines.push(formatPoField('msgctxt', entry.msgctxt));
+            if (entry.msgid !== undefined) lines.push(formatPoField('msgid', entry.msgid));
+            if (entry.msgidPlural !== undefined) {
+                lines.push(formatPoField('msgid_plural', entry.msgidPlural));
+                const forms = msgstr.length > 0 ? msgstr : [''];
+                forms.forEach((form, i) => lines.push(formatPoField(`msgstr[${i}]`, form ?? '')));
+            } else if (entry.msgid !== undefined) {
+                lines.push(formatPoField('msgstr', msgstr[0] ?? ''));
+            }
+            return lines.join('\n');
+        });
+        return blocks.join('\n\n') + '\n';
+    };
+
+    return { format: 'po', strings, alreadyTranslated, serialize };
+};
+
+/**
+ * Parses a catalog, picking the format from the file name (.json or .po/.pot).
+ * @throws An Error for other extensions or files that do not parse.
+ */
+export const parseLocalizationCatalog = (fileName: string, content: string): LocalizationCatalog => {
+    if (/\.json$/i.test(fileName)) return parseJsonCatalog(content);
+    if (/\.pot?$/i.test(fileName)) return parsePoCatalog(content);
+    throw new Error('Only .json and .po files are supported.');
+};
+
+/**
+ * Translates every string of a catalog in batches and checks the placeholders of each translation.
+ * Strings that fail the check are retried once on their own; those still failing are reported.
+ * @param provider The backend to translate with.
+ * @param catalog The parsed catalog.
+ * @param sourceLanguage The language of the catalog's strings.
+ * @param targetLanguage The language to translate into.
+ * @param options Formality, glossary and abort signal.
+ * @param onProgress Called after each batch.
+ * @returns The translations by string id and the placeholder issues that remain.
+ */
+export const translateCatalog = async (
+    provider: TranslationProvider,
+    catalog: LocalizationCatalog,
+    sourceLanguage: string,
+    targetLanguage: string,
+    options: TranslationSettings = {},
+    onProgress?: ChunkProgressCallback,
+): Promise<LocalizationResult> => {
+    const translations = new Map<string, string>();
+    const translate = async (strings: LocalizationString[]) => {
+        const results = await provider.translateSegments(strings.map(string => string.source), sourceLanguage, targetLanguage, options);
+        if (results.length !== strings.length) {
+            throw new TranslationError('empty-response', `Got ${results.length} translations for ${strings.length} strings.`);
+        }
+        strings.forEach((string, i) => translations.set(string.id, results[i]));
+    };
+
+    const batchCount = Math.ceil(catalog.strings.length / BATCH_SIZE);
+    for (let start = 0; start < catalog.strings.length; start += BATCH_SIZE) {
+        await translate(catalog.strings.slice(start, start + BATCH_SIZE));
+        onProgress?.(start / BATCH_SIZE + 1, batchCount);
+    }
+
+    const failing = () => catalog.strings.filter(string => checkPlaceholders(string, translations.get(string.id) ?? ''));
+    for (const string of failing()) await translate([string]);
+    const issues = failing().map(string => checkPlaceholders(string, translations.get(string.id) ?? '')!);
+    return { translations, issues };
+};
@@ -0,0 +1,160 @@
+import { TranslateOptions, TranslationProvider } from './translationProvider';
+
+/**
+ * Splits long documents into request-sized chunks at sentence and paragraph boundaries,
+ * so translation and speech synthesis never get one oversized prompt.
+ */
+
+export interface TextChunk {
+    text: string;
+    /** The whitespace that followed the chunk in the original text (empty for the last one). */
+    separator: string;
+}
+
+/** Called after each chunk is processed, with how many of them are done. */
+export type ChunkProgressCallback = (done: number, total: number) => void;
+
+// Terminators that end a sentence only when followed by whitespace, so decimals like "3.14" stay whole.
+const SPACED_TERMINATORS = '.!?;…';
+// Danda/double danda and CJK full stops end a sentence wherever they appear.
+const TERMINATORS = '।॥。！？；';
+// Closing quotes and brackets that belong to the sentence they follow.
+const CLOSERS = '"\'”’»)]」』）】';
+// Neighbouring source text sent along with a chunk, for consistent terminology and pronouns.
+const CONTEXT_LENGTH = 300;
+
+// Splits text into sentences (and line-separated blocks such as headings), keeping the whitespace after each.
+const splitUnits = (text: string): TextChunk[] => {
+    const units: TextChunk[] = [];
+    let start = 0;
+    let i = 0;
+    while (i < text.length) {
+        const char = text[i];
+        let end = -1;
+        if (char === '\n') {
+            end = i;
+        } else if (TERMINATORS.includes(char) || SPACED_TERMINATORS.includes(char)) {
+            let after = i + 1;
+            while (after < text.length && (TERMINATORS.includes(text[after]) || SPACED_TERMINATORS.includes(text[after]) || CLOSERS.includes(text[after]))) after++;
+            if (TERMINATORS.includes(char) || after === text.length || /\s/.test(text[after])) end = after;
+        }
+        if (end < 0) {
+            i++;
+            continue;
+        }
+        let next = end;
+        while (next < text.length && /\s/.test(text[next])) next++;
+        if (end > start) units.push({ text: text.slice(start, end), separator: text.slice(end, next) });
+        start = next;
+        i = Math.max(next, i + 1);
+    }
+    if (start < text.length) units.push({ text: text.slice(start), separator: '' });
+    return units;
+};
+
+// Cuts a sentence longer than the limit at a clause break or space, or mid-text as a last resort (CJK has no spaces).
+const splitLongUnit = (unit: TextChunk, maxLength: number): TextChunk[] => {
+    const parts: TextChunk[] = [];
+    let rest = unit.text;
+    while (rest.length > maxLength) {
+        const window = rest.slice(0, maxLength);
+        const clauseBreak = Math.max(...[',', '،', '、', '，', ':', '：'].map(mark => window.lastIndexOf(mark)));
+        const cut = clauseBreak > maxLength / 2 ? clauseBreak + 1 : window.lastIndexOf(' ') > maxLength / 2 ? window.lastIndexOf(' ') : maxLength;
+        const separator = rest.slice(cut).match(/^\s*/)![0];
+        parts.push({ text: rest.slice(0, cut), separator });
+        rest = rest.slice(cut + separator.length);
+    }
+    parts.push({ text: rest, separator: unit.separator });
+    return parts;
+};
+
+/**
+ * Splits text into chunks of at most `maxLength` characters, breaking between sentences.
+ * A paragraph break ends a chunk once it is at least half full, so paragraphs stay together where they fit.
+ * @param text The text to split.
+ * @param maxLength The largest chunk to produce, in UTF-16 code units.
+ * @returns The chunks in order; joining each chunk with its separator gives back the trimmed text.
+ */
+export const splitIntoChunks = (text: string, maxLength: number): TextChunk[] => {
+    const units = splitUnits(text.trim()).flatMap(unit => (unit.text.length > maxLength ? splitLongUnit(unit, maxLength) : [unit]));
+    const chunks: TextChunk[] = [];
+    let current: TextChunk | null = null;
+    for (const unit of units) {
+        const fits = current && current.text.length + current.separator.length + unit.text.length <= maxLength;
+        const endsParagraph = current && /\n\s*\n/.test(current.separator) && current.text.length >= maxLength / 2;
+        if (current && fits && !endsParagraph) {
+            current = { text: current.text + current.separator + unit.text, separator: unit.separator };
+            chunks[chunks.length - 1] = current;
+        } else {
+            current = { ...unit };
+            chunks.push(current);
+        }
+    }
+    return chunks;
+};
+
+/**
+ * Joins per-chunk outputs (translations, transcriptions) back into one text.
+ * Line and paragraph breaks from the original are kept; other breaks become a single space,
+ * except after full-width CJK punctuation, which needs none.
+ */
+export const joinChunks = (chunks: TextChunk[], outputs: string[]): string =>
+    outputs
+        .map((output, index) => {
+            if (index === outputs.length - 1) return output;
+            const { separator } = chunks[index];
+            if (separator.includes('\n')) return output + separator;
+            return /[。！？；」』）]$/.test(output) ? output : `${output} `;
+        })
+        .join('');
+
+/**
+ * Runs `process` on each chunk in turn and joins the results.
+ * @param chunks The chunks, from splitIntoChunks.
+ * @param process Produces the output for one chunk.
+ * @param onProgress Called after each chunk.
+ * @returns The joined outputs.
+ */
+export const processInChunks = async (chunks: TextChunk[], process: (chunk: TextChunk, index: number) => Promise<string>, onProgress?: ChunkProgressCallback): Promise<string> => {
+    const outputs: string[] = [];
+    for (const [index, chunk] of chunks.entries()) {
+        outputs.push(await process(chunk, index));
+        onProgress?.(outputs.length, chunks.length);
+    }
+    return joinChunks(chunks, outputs);
+};
+
+/**
+ * Translates a chunked text one chunk at a time. Each request carries the end of the previous
+ * chunk and the start of the next one as context, so terminology and pronouns stay consistent.
+ * @param provider The backend to translate with.
+ * @param chunks The source chunks, from splitIntoChunks.
+ * @param sourceLanguage The language of the text.
+ * @param targetLanguage The language to translate into.
+ * @param options Formality, glossary and abort signal; `onPartial` gets the whole translation so far.
+ * @param onProgress Called after each chunk.
+ * @returns The full translation.
+ */
+export const translateInChunks = (
+    provider: TranslationProvider,
+    chunks: TextChunk[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    options: TranslateOptions = {},
+    onProgress?: ChunkProgressCallback,
+): Promise<string> => {
+    const { onPartial, ...settings } = options;
+    const translated: string[] = [];
+    return processInChunks(chunks, async (chunk, index) => {
+        const context = chunks.length > 1
+            ? { before: chunks[index - 1]?.text.slice(-CONTEXT_LENGTH), after: chunks[index + 1]?.text.slice(0, CONTEXT_LENGTH) }
+            : undefined;
+        const translation = await provider.translateText(chunk.text, sourceLanguage, targetLanguage, {
+            ...settings,
+            context,
+            onPartial: onPartial && (partial => onPartial(joinChunks(chunks, [...translated, partial]))),
+        });
+        translated.push(translation);
+        return translation;
+    }, onProgress);
+};
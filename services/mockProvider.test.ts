@@ -0,0 +1,148 @@
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createMockProvider } from './mockProvider';
+import { createDefaultProvider } from './providerFactory';
+import { TranslationError } from './errors';
+import { createGeminiProvider } from './geminiService';
+import { createProxyServer } from '../server/app';
+
+const provider = createMockProvider({ latencyMs: 0 });
+const recording = new Blob([new Uint8Array([1, 2, 3])], { type: 'audio/webm' });
+
+describe('createMockProvider', () => {
+    it('tags translations with the target language and non-default registers', async () => {
+        expect(await provider.translateText(' Good morning ', 'English', 'Bengali')).toBe('[Bengali] Good morning');
+        expect(await provider.translateText('Good morning', 'English', 'Bengali', { formality: 'neutral' })).toBe('[Bengali] Good morning');
+        expect(await provider.translateText('Good morning', 'English', 'Bengali', { formality: 'casual' })).toBe('[Bengali, casual] Good morning');
+    });
+
+    it('keeps text in the same language as is', async () => {
+        expect(await provider.translateText(' নমস্কার ', 'Bengali', 'Bengali')).toBe('নমস্কার');
+    });
+
+    it('applies the glossary literally', async () => {
+        const glossary = [{ source: 'Dhaka', target: 'ঢাকা' }, { source: 'Acme', target: 'Acme' }];
+        expect(await provider.translateText('Acme opens in Dhaka', 'English', 'Bengali', { glossary })).toBe('[Bengali] Acme opens in ঢাকা');
+    });
+
+    it('streams partial translations word by word', async () => {
+        const partials: string[] = [];
+        const result = await provider.translateText('one two three', 'English', 'Hindi', { onPartial: partial => partials.push(partial) });
+        expect(partials).toEqual(['[Hindi]', '[Hindi] one', '[Hindi] one two', '[Hindi] one two three']);
+        expect(partials.at(-1)).toBe(result);
+    });
+
+    it('fails with the error kind asked for in the text', async () => {
+        await expect(provider.translateText('Hi #error:quota', 'English', 'Bengali')).rejects.toMatchObject({ kind: 'quota' });
+        await expect(provider.translateSegments(['fine', '#error:network'], 'English', 'Bengali')).rejects.toBeInstanceOf(TranslationError);
+        await expect(provider.translateText('#error:foo', 'English', 'Bengali')).rejects.toMatchObject({ kind: 'unknown', message: 'Simulated foo error.' });
+    });
+
+    it('rejects once the signal is aborted', async () => {
+        const slow = createMockProvider({ latencyMs: 1000 });
+        const controller = new AbortController();
+        const pending = slow.translateText('Hi', 'English', 'Bengali', { signal: controller.signal });
+        controller.abort();
+        await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('translates segments one for one', async () => {
+        expect(await provider.translateSegments(['Hello', 'Bye'], 'English', 'Bengali', { formality: 'formal' })).toEqual(['[Bengali, formal] Hello', '[Bengali, formal] Bye']);
+    });
+
+    it('offers idiomatic, literal and casual alternatives', async () => {
+        const alternatives = await provider.getAlternatives('Hi', 'English', 'Bengali');
+        expect(alternatives.map(alternative => alternative.translation)).toEqual(['[Bengali] Hi', '[Bengali] Hi (literal)', '[Bengali] Hi (casual)']);
+    });
+
+    it('reports the translation before the phonetic guide', async () => {
+        const events: string[] = [];
+        const result = await provider.translateWithPhonetics('Hello', 'English', 'French', {
+            includeRomanization: true,
+            onTranslation: translation => events.push(`translation: ${translation}`),
+        });
+        expect(events).toEqual(['translation: [French] Hello']);
+        expect(result).toEqual({ translation: '[French] Hello', phonetic: '[fre-nch] he-llo', romanization: '[French] Hello' });
+        expect((await provider.translateWithPhonetics('Hello', 'English', 'French')).romanization).toBeUndefined();
+    });
+
+    it('detects typed text by script and recordings as Bengali', async () => {
+        expect(await provider.detectLanguage('नमस्ते दुनिया')).toEqual({ language: 'Hindi', confidence: 0.95 });
+        expect(await provider.detectLanguage('1234')).toEqual({ language: 'English', confidence: 0 });
+        expect(await provider.detectLanguage(recording)).toEqual({ language: 'Bengali', confidence: 0.9 });
+    });
+
+    it('returns the canned transcript for the source language', async () => {
+        expect(await provider.transcribeAudio(recording, 'Bengali')).toBe('আমি তোমাকে ভালোবাসি');
+        expect(await provider.transcribeAudio(recording, 'Swahili')).toBe('I love you');
+        expect((await provider.transcribeWithSpeakers(recording, 'Bengali')).map(turn => turn.speaker)).toEqual(['Speaker 1', 'Speaker 2']);
+    });
+
+    it('breaks words after each vowel group for the phonetic guide', async () => {
+        expect(await provider.getPhoneticTranscription(' Hello there ', 'English')).toBe('he-llo the-re');
+    });
+
+    it('synthesizes the same audio for the same text, longer for more words', async () => {
+        const once = await provider.textToSpeech('hello there', 'English', 'Kore');
+        expect(await provider.textToSpeech('hello there', 'English', 'Kore')).toBe(once);
+        expect((await provider.textToSpeech('hello there friend', 'English', 'Kore')).length).toBeGreaterThan(once.length);
+    });
+});
+
+describe('translate flow through the mock', () => {
+    afterEach(() => {
+        vi.unstubAllEnvs();
+    });
+
+    it('runs record, translate, pronounce and speak offline', async () => {
+        vi.stubEnv('TRANSLATION_PROVIDER', 'mock');
+        const app = createDefaultProvider();
+
+        const transcript = await app.transcribeAudio(recording, 'English');
+        const translation = await app.translateText(transcript, 'English', 'Bengali');
+        expect(translation).toBe('[Bengali] I love you');
+        expect(await app.getPhoneticTranscription(translation, 'Bengali')).toBe('[be-nga-li] i lo-ve you');
+        // Four words of 0.35 s each at 24 kHz, 16-bit, in base64.
+        expect(Buffer.from(await app.textToSpeech(translation, 'Bengali', 'Kore'), 'base64').length).toBe(4 * 8400 * 2);
+    });
+});
+
+describe('translate flow through the proxy and the mock', () => {
+    let server: http.Server;
+    let client: ReturnType<typeof createGeminiProvider>;
+
+    beforeAll(async () => {
+        server = createProxyServer({ provider: createMockProvider({ latencyMs: 0 }) });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        client = createGeminiProvider(`http://127.0.0.1:${(server.address() as AddressInfo).port}/api`);
+    });
+
+    afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    it('streams, pronounces and speaks through the proxy routes', async () => {
+        const partials: string[] = [];
+        const translation = await client.translateText('Good night', 'English', 'Bengali', {
+            formality: 'formal',
+            glossary: [{ source: 'night', target: 'রাত' }],
+            onPartial: partial => partials.push(partial),
+        });
+        expect(translation).toBe('[Bengali, formal] Good রাত');
+        expect(partials.at(-1)).toBe(translation);
+        expect(await client.getPhoneticTranscription(translation, 'Bengali')).toBe('[be-nga-li, fo-rma-l] goo-d রাত');
+        expect(await client.textToSpeech(translation, 'Bengali', 'Kore')).toBe(await createMockProvider({ latencyMs: 0 }).textToSpeech(translation, 'Bengali', 'Kore'));
+    });
+
+    it('returns the translation and phonetic guide in one call', async () => {
+        const translations: string[] = [];
+        const result = await client.translateWithPhonetics('Hello', 'English', 'French', { onTranslation: translation => translations.push(translation) });
+        expect(translations).toEqual(['[French] Hello']);
+        expect(result).toMatchObject({ translation: '[French] Hello', phonetic: '[fre-nch] he-llo' });
+    });
+
+    it('rebuilds the typed error the mock raised', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await expect(client.translateText('#error:safety', 'English', 'Bengali')).rejects.toMatchObject({ kind: 'safety', message: 'Simulated safety error.' });
+        vi.restoreAllMocks();
+    });
+});
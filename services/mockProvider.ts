@@ -0,0 +1,153 @@
+import { encode, sleep } from '../utils';
+import { TranslationError, TranslationErrorKind, isTranslationErrorKind } from './errors';
+import { getLocalPhonetics } from './bengaliRomanization';
+import { detectLanguageByScript } from './scriptDetection';
+import { DetectedLanguage, PhoneticOptions, RequestOptions, SegmentTranslateOptions, SpeakerTurn, StructuredTranslateOptions, TranslateOptions, TranslationAlternative, TranslationProvider, TranslationResult, TranslationSettings } from './translationProvider';
+
+const SAMPLE_RATE = 24000;
+
+// Canned transcripts returned for any recording, keyed by source language.
+const MOCK_TRANSCRIPTS: Record<string, string> = {
+    Bengali: 'আমি তোমাকে ভালোবাসি',
+    Hindi: 'मैं तुमसे प्यार करता हूँ',
+    English: 'I love you',
+};
+
+// Typing e.g. "#error:quota" into the input makes the mock fail with that error kind.
+// Words that are not a known kind fail as 'unknown'.
+const SIMULATED_ERROR_PATTERN = /#error:([a-z-]+)/;
+
+const failIfRequested = (text: string) => {
+    const requested = text.match(SIMULATED_ERROR_PATTERN)?.[1];
+    if (!requested) return;
+    const kind: TranslationErrorKind = isTranslationErrorKind(requested) ? requested : 'unknown';
+    throw new TranslationError(kind, `Simulated ${requested} error.`);
+};
+
+export interface MockProviderOptions {
+    /** Artificial delay applied to every call, so loading states can be exercised. */
+    latencyMs?: number;
+}
+
+
+/**
+ * Builds deterministic 16-bit mono PCM: one short tone per word separated by silence,
+ * so the audio length (and shape) follows the text.
+ */
+const synthesizeTones = (text: string): Uint8Array => {
+    const words = text.split(/\s+/).filter(Boolean);
+    const toneSamples = Math.round(SAMPLE_RATE * 0.25);
+    const gapSamples = Math.round(SAMPLE_RATE * 0.1);
+    const samples = new Int16Array(Math.max(1, words.length) * (toneSamples + gapSamples));
+
+    words.forEach((word, index) => {
+        // Derive a stable pitch from the word so different text sounds different.
+        let hash = 0;
+        for (const char of word) hash = (hash * 31 + char.codePointAt(0)!) % 997;
+        const frequency = 220 + (hash % 440);
+        const offset = index * (toneSamples + gapSamples);
+        for (let i = 0; i < toneSamples; i++) {
+            const envelope = Math.sin(Math.PI * i / toneSamples);
+            samples[offset + i] = Math.round(Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * envelope * 8000);
+        }
+    });
+    return new Uint8Array(samples.buffer);
+};
+
+/**
+ * Creates an offline provider that never touches the network.
+ * Every result is a pure function of its inputs, which makes it suitable for demos and tests.
+ * @param options Optional behaviour tweaks such as artificial latency.
+ * @returns A TranslationProvider with deterministic output.
+ */
+export const createMockProvider = ({ latencyMs = 300 }: MockProviderOptions = {}): TranslationProvider => {
+    const detectLanguage = async (input: string | Blob, options: RequestOptions = {}): Promise<DetectedLanguage> => {
+        await sleep(latencyMs, options.signal);
+        // Recordings always "contain" the canned Bengali transcript.
+        if (typeof input !== 'string') return { language: 'Bengali', confidence: 0.9 };
+        return detectLanguageByScript(input) ?? { language: 'English', confidence: 0 };
+    };
+
+    const transcribeAudio = async (_audioBlob: Blob, sourceLanguage: string, options: RequestOptions = {}): Promise<string> => {
+        await sleep(latencyMs, options.signal);
+        return MOCK_TRANSCRIPTS[sourceLanguage] ?? MOCK_TRANSCRIPTS.English;
+    };
+
+    // Splits the canned transcript between two speakers, a second and a half per turn.
+    const transcribeWithSpeakers = async (audioBlob: Blob, sourceLanguage: string, options: RequestOptions = {}): Promise<SpeakerTurn[]> => {
+        const words = (await transcribeAudio(audioBlob, sourceLanguage, options)).split(' ');
+        const half = Math.ceil(words.length / 2);
+        return [words.slice(0, half), words.slice(half)]
+            .filter(turn => turn.length > 0)
+            .map((turn, i) => ({ start: i * 1.5, end: (i + 1) * 1.5, speaker: `Speaker ${i + 1}`, text: turn.join(' ') }));
+    };
+
+    // The canned "translation": the text tagged with the target language.
+    const render = (text: string, sourceLanguage: string, targetLanguage: string, options: TranslationSettings) => {
+        // Non-default registers are tagged so they are visible in offline mode.
+        const tag = options.formality && options.formality !== 'neutral' ? `${targetLanguage}, ${options.formality}` : targetLanguage;
+        // Follow the glossary literally, like a well-behaved model would.
+        const pinned = (options.glossary ?? []).reduce((result, term) => result.split(term.source).join(term.target), text.trim());
+        return sourceLanguage === targetLanguage ? text.trim() : `[${tag}] ${pinned}`;
+    };
+
+    const translateText = async (text: string, sourceLanguage: string, targetLanguage: string, options: TranslateOptions = {}): Promise<string> => {
+        await sleep(latencyMs, options.signal);
+        failIfRequested(text);
+        const translated = render(text, sourceLanguage, targetLanguage, options);
+        if (options.onPartial) {
+            // Stream word by word, spreading the latency across the chunks.
+            const words = translated.split(' ');
+            for (let i = 1; i <= words.length; i++) {
+                options.onPartial(words.slice(0, i).join(' '));
+                await sleep(latencyMs / words.length, options.signal);
+            }
+        }
+        return translated;
+    };
+
+    const translateSegments = async (segments: string[], sourceLanguage: string, targetLanguage: string, options: SegmentTranslateOptions = {}): Promise<string[]> => {
+        await sleep(latencyMs, options.signal);
+        segments.forEach(failIfRequested);
+        return segments.map(segment => render(segment, sourceLanguage, targetLanguage, options));
+    };
+
+    const getAlternatives = async (text: string, sourceLanguage: string, targetLanguage: string, options: TranslationSettings = {}): Promise<TranslationAlternative[]> => {
+        const translation = await translateText(text, sourceLanguage, targetLanguage, { ...options, onPartial: undefined });
+        return [
+            { translation, note: 'Idiomatic: reads naturally and keeps the intended meaning.' },
+            { translation: `${translation} (literal)`, note: 'Literal: follows the original word by word, which can sound stiff.' },
+            { translation: `${translation} (casual)`, note: 'Idiomatic, in a more casual register.' },
+        ];
+    };
+
+    const getPhoneticTranscription = async (text: string, language: string, options: PhoneticOptions = {}): Promise<string> => {
+        await sleep(latencyMs, options.signal);
+        const local = getLocalPhonetics(text, language, options.scheme ?? 'simple');
+        if (local !== null) return local;
+        // Break each word after every vowel group, e.g. "hello" -> "he-llo".
+        return text
+            .trim()
+            .split(/\s+/)
+            .map(word => word.toLowerCase().replace(/([aeiou]+)(?=[^aeiou\W])/g, '$1-'))
+            .join(' ');
+    };
+
+    const translateWithPhonetics = async (text: string, sourceLanguage: string, targetLanguage: string, options: StructuredTranslateOptions = {}): Promise<TranslationResult> => {
+        const translation = await translateText(text, sourceLanguage, targetLanguage, options);
+        options.onTranslation?.(translation);
+        const phonetic = await getPhoneticTranscription(translation, targetLanguage, { scheme: options.phoneticScheme, signal: options.signal });
+        // Strip anything outside Latin letters, digits and punctuation as a stand-in romanization.
+        const romanization = options.includeRomanization
+            ? translation.normalize('NFKD').replace(/[^\x20-\x7E]/g, '').replace(/\s+/g, ' ').trim()
+            : undefined;
+        return { translation, phonetic, romanization };
+    };
+
+    const textToSpeech = async (text: string, _language: string, _voiceName: string, options: RequestOptions = {}): Promise<string> => {
+        await sleep(latencyMs, options.signal);
+        return encode(synthesizeTones(text));
+    };
+
+    return { detectLanguage, transcribeAudio, transcribeWithSpeakers, translateText, translateWithPhonetics, translateSegments, getAlternatives, getPhoneticTranscription, textToSpeech };
+};
@@ -0,0 +1,14 @@
+import { TranslationProvider } from './translationProvider';
+import { createGeminiProvider } from './geminiService';
+import { createMockProvider } from './mockProvider';
+
+/**
+ * Picks the provider the app should run against.
+ * Set `TRANSLATION_PROVIDER=mock` to run fully offline; otherwise requests go through the proxy server.
+ */
+export const createDefaultProvider = (): TranslationProvider => {
+    if (process.env.TRANSLATION_PROVIDER === 'mock') {
+        return createMockProvider();
+    }
+    return createGeminiProvider();
+};
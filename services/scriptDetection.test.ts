@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { detectLanguageByScript } from './scriptDetection';
+
+describe('detectLanguageByScript', () => {
+    it('detects Bengali, and Assamese from its own letters', () => {
+        expect(detectLanguageByScript('আমি তোমাকে ভালোবাসি')).toEqual({ language: 'Bengali', confidence: 0.95 });
+        expect(detectLanguageByScript('মই তোমাক ভাল পাওঁ, ৰাতি')).toMatchObject({ language: 'Assamese' });
+    });
+
+    it('detects Devanagari as Hindi', () => {
+        expect(detectLanguageByScript('मैं तुमसे प्यार करता हूँ')).toEqual({ language: 'Hindi', confidence: 0.95 });
+    });
+
+    it('detects Arabic', () => {
+        expect(detectLanguageByScript('مرحبا بالعالم')).toEqual({ language: 'Arabic', confidence: 0.95 });
+    });
+
+    it('reports Latin script as English with low confidence', () => {
+        expect(detectLanguageByScript('Hello, world!')).toEqual({ language: 'English', confidence: 0.5 });
+        expect(detectLanguageByScript('Ça va très bien')).toEqual({ language: 'English', confidence: 0.5 });
+    });
+
+    it('picks the script with the most letters in mixed text and lowers the confidence', () => {
+        // 10 Bengali letters and marks against 2 Latin letters.
+        expect(detectLanguageByScript('আমি ভালো আছি, ok?')).toEqual({ language: 'Bengali', confidence: 0.79 });
+        expect(detectLanguageByScript('I said নমস্কার to everyone here')).toMatchObject({ language: 'English' });
+    });
+
+    it('tells Japanese apart from Chinese by its kana', () => {
+        expect(detectLanguageByScript('我爱你')).toMatchObject({ language: 'Chinese (Simplified)' });
+        expect(detectLanguageByScript('日本語を話します')).toMatchObject({ language: 'Japanese' });
+    });
+
+    it('returns null for text without letters', () => {
+        expect(detectLanguageByScript('')).toBeNull();
+        expect(detectLanguageByScript('  123, 456! ')).toBeNull();
+    });
+});
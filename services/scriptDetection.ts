@@ -0,0 +1,56 @@
+import { DetectedLanguage } from './translationProvider';
+
+interface ScriptRule {
+    language: string;
+    pattern: RegExp;
+}
+
+// The script that covers the most letters wins; ties go to the earlier rule.
+const SCRIPT_RULES: ScriptRule[] = [
+    { language: 'Bengali', pattern: /[ঀ-৿]/u },
+    { language: 'Hindi', pattern: /[ऀ-ॿ]/u },
+    { language: 'Arabic', pattern: /[؀-ۿ]/u },
+    { language: 'Hebrew', pattern: /[֐-׿]/u },
+    { language: 'Thai', pattern: /[฀-๿]/u },
+    { language: 'Greek', pattern: /[Ͱ-Ͽ]/u },
+    { language: 'Russian', pattern: /[Ѐ-ӿ]/u },
+    { language: 'Korean', pattern: /[가-힯ᄀ-ᇿ]/u },
+    { language: 'Japanese', pattern: /[぀-ヿ]/u },
+    { language: 'Chinese (Simplified)', pattern: /[一-鿿]/u },
+    { language: 'English', pattern: /[A-Za-zÀ-ɏ]/u },
+];
+
+// Letters that only occur in one language of a shared script.
+const REFINEMENTS: Record<string, { language: string; pattern: RegExp }[]> = {
+    // Assamese uses ৰ and ৱ, which Bengali does not.
+    Bengali: [{ language: 'Assamese', pattern: /[ৰৱ]/u }],
+    Russian: [{ language: 'Ukrainian', pattern: /[іїєґІЇЄҐ]/u }],
+    // Japanese text mixes kanji with kana, so any kana means Japanese.
+    'Chinese (Simplified)': [{ language: 'Japanese', pattern: /[぀-ヿ]/u }],
+};
+
+/**
+ * Guesses the language of a text from the Unicode script its letters are written in.
+ * This is a fast, offline heuristic: it can't tell apart languages that share a script
+ * (e.g. most Latin-script languages report as English), which the confidence reflects.
+ * @param text The text to inspect.
+ * @returns The best guess and a 0–1 confidence, or null if the text has no letters.
+ */
+export const detectLanguageByScript = (text: string): DetectedLanguage | null => {
+    const letters = Array.from(text).filter(char => /\p{L}|\p{M}/u.test(char));
+    if (letters.length === 0) return null;
+
+    let best: { rule: ScriptRule; count: number } | null = null;
+    for (const rule of SCRIPT_RULES) {
+        const count = letters.filter(char => rule.pattern.test(char)).length;
+        if (count > 0 && (!best || count > best.count)) best = { rule, count };
+    }
+    if (!best) return null;
+
+    const language = REFINEMENTS[best.rule.language]?.find(refinement => refinement.pattern.test(text))?.language ?? best.rule.language;
+
+    const coverage = best.count / letters.length;
+    // Latin script is shared by dozens of languages, so a match there says much less.
+    const confidence = best.rule.language === 'English' ? coverage * 0.5 : coverage * 0.95;
+    return { language, confidence: Math.round(confidence * 100) / 100 };
+};
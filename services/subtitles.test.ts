@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import { SubtitleCue, SubtitleDocument, parseSrt, parseSubtitles, parseVtt, serializeSubtitles, translateSubtitles } from './subtitles';
+import { createMockProvider } from './mockProvider';
+
+const SRT = `1
+00:00:01,000 --> 00:00:03,500
+<i>Hello there.</i>
+
+2
+00:00:04,000 --> 00:00:06,000 X1:100 X2:200 Y1:10 Y2:50
+{\\an8}Two lines
+of <b>text</b>
+
+7
+00:00:07,250 --> 00:00:09,000
+<font color="#ffff00">Kept counter</font>
+`;
+
+const VTT = `WEBVTT - Example with header text
+Kind: captions
+
+NOTE
+This note spans
+two lines.
+
+STYLE
+::cue(.yellow) {
+  color: yellow;
+}
+
+REGION
+id:top
+width:40%
+
+intro
+00:00:01.000 --> 00:00:03.000 align:start position:10% region:top
+<v Rahim>Hello</v> <c.yellow>world</c>
+
+00:00:03.500 --> 00:00:05.000
+Karaoke <00:00:04.000>timing
+second line
+
+NOTE trailing comment
+
+chapter-2
+00:01:00.000 --> 00:01:02.000 line:0 vertical:rl
+<ruby>漢<rt>kan</rt></ruby>
+`;
+
+const cuesOf = (document: SubtitleDocument) => document.blocks.filter((block): block is SubtitleCue => block.kind === 'cue');
+
+describe('SRT round trip', () => {
+    it('serializes a parsed file back unchanged', () => {
+        expect(serializeSubtitles(parseSrt(SRT))).toBe(SRT);
+    });
+
+    it('keeps cue ids, coordinates and styling tags', () => {
+        const cues = cuesOf(parseSrt(SRT));
+        expect(cues.map(cue => cue.id)).toEqual(['1', '2', '7']);
+        expect(cues[1]).toMatchObject({ start: '00:00:04,000', end: '00:00:06,000', settings: ' X1:100 X2:200 Y1:10 Y2:50', text: '{\\an8}Two lines\nof <b>text</b>' });
+        expect(cues[2].text).toBe('<font color="#ffff00">Kept counter</font>');
+    });
+
+    it('keeps CRLF line endings', () => {
+        const crlf = SRT.replace(/\n/g, '\r\n');
+        const document = parseSrt(crlf);
+        expect(document.lineEnding).toBe('\r\n');
+        expect(serializeSubtitles(document)).toBe(crlf);
+    });
+
+    it('drops a byte order mark and keeps the rest', () => {
+        expect(serializeSubtitles(parseSubtitles(`\uFEFF${SRT}`))).toBe(SRT);
+    });
+
+    it('numbers cues without an id by position', () => {
+        const document = parseSrt('00:00:01,000 --> 00:00:02,000\nOne\n\n00:00:03,000 --> 00:00:04,000\nTwo\n');
+        expect(serializeSubtitles(document)).toBe('1\n00:00:01,000 --> 00:00:02,000\nOne\n\n2\n00:00:03,000 --> 00:00:04,000\nTwo\n');
+    });
+
+    it('names the block that has no timing line', () => {
+        expect(() => parseSrt('1\n00:00:01,000 --> 00:00:02,000\nOne\n\n2\nno timing\n')).toThrow(/block 2/);
+    });
+});
+
+describe('WebVTT round trip', () => {
+    it('serializes a parsed file back unchanged', () => {
+        expect(serializeSubtitles(parseVtt(VTT))).toBe(VTT);
+    });
+
+    it('keeps NOTE, STYLE and REGION blocks as raw blocks', () => {
+        const document = parseVtt(VTT);
+        expect(document.header).toBe('WEBVTT - Example with header text\nKind: captions');
+        expect(document.blocks.filter(block => block.kind === 'raw').map(block => block.text.split('\n')[0])).toEqual(['NOTE', 'STYLE', 'REGION', 'NOTE trailing comment']);
+    });
+
+    it('keeps cue ids, cue settings and styling tags', () => {
+        const cues = cuesOf(parseVtt(VTT));
+        expect(cues.map(cue => cue.id)).toEqual(['intro', '', 'chapter-2']);
+        expect(cues[0]).toMatchObject({ settings: ' align:start position:10% region:top', text: '<v Rahim>Hello</v> <c.yellow>world</c>' });
+        expect(cues[1]).toMatchObject({ text: 'Karaoke <00:00:04.000>timing\nsecond line' });
+        expect(cues[2]).toMatchObject({ settings: ' line:0 vertical:rl', text: '<ruby>漢<rt>kan</rt></ruby>' });
+    });
+
+    it('keeps CRLF line endings', () => {
+        const crlf = VTT.replace(/\n/g, '\r\n');
+        expect(serializeSubtitles(parseVtt(crlf))).toBe(crlf);
+    });
+
+    it('detects the format behind a byte order mark', () => {
+        const document = parseSubtitles(`\uFEFF${VTT}`);
+        expect(document.format).toBe('vtt');
+        expect(serializeSubtitles(document)).toBe(VTT);
+    });
+
+    it('rejects a file without the WEBVTT signature', () => {
+        expect(() => parseVtt('00:00:01.000 --> 00:00:02.000\nHello\n')).toThrow(/WEBVTT/);
+    });
+});
+
+describe('translateSubtitles', () => {
+    const provider = createMockProvider({ latencyMs: 0 });
+
+    it('translates cue text and keeps timing, ids and tags', async () => {
+        const translated = await translateSubtitles(provider, parseSrt(SRT), 'English', 'Bengali');
+        expect(cuesOf(translated).map(cue => [cue.id, cue.start, cue.text])).toEqual([
+            ['1', '00:00:01,000', '[Bengali] <i>Hello there.</i>'],
+            ['2', '00:00:04,000', '[Bengali] {\\an8}Two lines\nof <b>text</b>'],
+            ['7', '00:00:07,250', '[Bengali] <font color="#ffff00">Kept counter</font>'],
+        ]);
+    });
+
+    it('fails when the provider returns fewer translations than cues', async () => {
+        const short = { ...provider, translateSegments: async (segments: string[]) => segments.slice(1) };
+        await expect(translateSubtitles(short, parseSrt(SRT), 'English', 'Bengali')).rejects.toMatchObject({ kind: 'empty-response' });
+    });
+});
@@ -0,0 +1,220 @@
+import { TranslationSettings, TranslationProvider } from './translationProvider';
+import { ChunkProgressCallback } from './longText';
+import { TranslationError } from './errors';
+
+/**
+ * Parsing, serialization and translation of SubRip (.srt) and WebVTT (.vtt) subtitle files.
+ * Timestamps, cue ids and cue settings are kept verbatim, so a translated file lines up
+ * with the video exactly like the original.
+ */
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleCue {
+    kind: 'cue';
+    /** The cue identifier line; SRT counters are kept as written. Empty if the cue had none. */
+    id: string;
+    /** The start and end timestamps, exactly as written in the file. */
+    start: string;
+    end: string;
+    /** Anything after the end timestamp: WebVTT cue settings or SRT coordinates, with leading space. */
+    settings: string;
+    /** The cue payload, including styling tags; lines are separated by "\n". */
+    text: string;
+}
+
+/** A WebVTT NOTE, STYLE or REGION block, kept as is. */
+export interface SubtitleRawBlock {
+    kind: 'raw';
+    text: string;
+}
+
+export interface SubtitleDocument {
+    format: SubtitleFormat;
+    /** The WebVTT header ("WEBVTT" line and header text); empty for SRT. */
+    header: string;
+    blocks: (SubtitleCue | SubtitleRawBlock)[];
+    /** The line ending used by the original file, reused when serializing. */
+    lineEnding: '\n' | '\r\n';
+}
+
+export interface SubtitleTranslateOptions extends TranslationSettings {
+    /** The longest line a translated cue may have; longer lines are rewrapped. */
+    maxLineLength?: number;
+}
+
+export const DEFAULT_SUBTITLE_LINE_LENGTH = 42;
+// Cues per request; each batch goes out with a few neighbouring cues as context.
+const BATCH_SIZE = 20;
+const CONTEXT_CUES = 3;
+
+const TIMING_LINE = /^(\S+)[ \t]+-->[ \t]+(\S+)(.*)$/;
+// <i>, </i>, <font color="...">, <c.yellow>, <v Speaker>, <00:00:01.000> and ASS-style {\an8} overrides.
+const TAG_PATTERN = /<[^>]*>|\{\\[^}]*\}/g;
+
+const stripTags = (text: string) => text.replace(TAG_PATTERN, '');
+
+// Splits the file into blocks separated by blank lines.
+const splitBlocks = (content: string): string[][] =>
+    content
+        .replace(/^\uFEFF/, '')
+        .replace(/\r\n?/g, '\n')
+        .trimEnd()
+        .split(/\n[ \t]*\n/)
+        .map(block => block.split('\n'))
+        .filter(lines => lines.some(line => line.trim()));
+
+// Reads one cue: an optional id line, the timing line and the payload lines.
+const parseCue = (lines: string[], blockNumber: number): SubtitleCue => {
+    const timingIndex = TIMING_LINE.test(lines[0]) ? 0 : 1;
+    const timing = lines[timingIndex]?.match(TIMING_LINE);
+    if (!timing) throw new Error(`Subtitle block ${blockNumber} has no "start --> end" timing line.`);
+    return {
+        kind: 'cue',
+        id: timingIndex === 1 ? lines[0] : '',
+        start: timing[1],
+        end: timing[2],
+        settings: timing[3].trimEnd(),
+        text: lines.slice(timingIndex + 1).join('\n'),
+    };
+};
+
+/**
+ * Parses a SubRip (.srt) file.
+ * @throws An Error naming the block that has no timing line.
+ */
+export const parseSrt = (content: string): SubtitleDocument => ({
+    format: 'srt',
+    header: '',
+    blocks: splitBlocks(content).map((lines, i) => parseCue(lines, i + 1)),
+    lineEnding: content.includes('\r\n') ? '\r\n' : '\n',
+});
+
+/**
+ * Parses a WebVTT (.vtt) file. NOTE, STYLE and REGION blocks are kept as raw blocks.
+ * @throws An Error if the "WEBVTT" signature is missing or a cue has no timing line.
+ */
+export const parseVtt = (content: string): SubtitleDocument => {
+    const [headerLines, ...blocks] = splitBlocks(content);
+    if (!headerLines?.[0].startsWith('WEBVTT')) throw new Error('The file does not start with "WEBVTT".');
+    return {
+        format: 'vtt',
+        header: headerLines.join('\n'),
+        blocks: blocks.map((lines, i) => (/^(NOTE|STYLE|REGION)\b/.test(lines[0])
+            ? { kind: 'raw' as const, text: lines.join('\n') }
+            : parseCue(lines, i + 2))),
+        lineEnding: content.includes('\r\n') ? '\r\n' : '\n',
+    };
+};
+
+/**
+ * Parses a subtitle file, picking the format from its signature (WebVTT files start with "WEBVTT").
+ */
+export const parseSubtitles = (content: string): SubtitleDocument =>
+    content.replace(/^\uFEFF/, '').startsWith('WEBVTT') ? parseVtt(content) : parseSrt(content);
+
+/**
+ * Serializes a subtitle document in its own format, with the original line endings.
+ * SRT cues without an id are numbered by position.
+ */
+export const serializeSubtitles = (document: SubtitleDocument): string => {
+    let cueNumber = 0;
+    const blocks = document.blocks.map(block => {
+        if (block.kind === 'raw') return block.text;
+        cueNumber++;
+        const id = block.id || (document.format === 'srt' ? String(cueNumber) : '');
+        return [id, `${block.start} --> ${block.end}${block.settings}`, block.text].filter((line, i) => i > 0 || line).join('\n');
+    });
+    const text = [...(document.header ? [document.header] : []), ...blocks].join('\n\n') + '\n';
+    return document.lineEnding === '\r\n' ? text.replace(/\n/g, '\r\n') : text;
+};
+
+/**
+ * Puts the source cue's styling tags back if the translation lost or mangled them:
+ * the translation is stripped and wrapped in the tags that opened and closed the original.
+ */
+export const restoreTags = (source: string, translation: string): string => {
+    const tags = (text: string) => (text.match(TAG_PATTERN) ?? []).sort().join('\u0000');
+    if (tags(source) === tags(translation)) return translation;
+    const leading = source.match(/^(?:<[^>]*>|\{\\[^}]*\})*/)![0];
+    const trailing = source.match(/(?:<[^>]*>|\{\\[^}]*\})*$/)![0];
+    return `${leading}${stripTags(translation)}${trailing}`;
+};
+
+/**
+ * Rewraps a cue whose lines are longer than the limit, breaking between words
+ * (or between characters, for scripts without spaces). Tags do not count towards line length.
+ */
+export const wrapCueText = (text: string, maxLineLength: number): string => {
+    const lines = text.split('\n');
+    if (lines.every(line => stripTags(line).length <= maxLineLength)) return text;
+
+    const joined = lines.join(' ');
+    const hasSpaces = /\s/.test(stripTags(joined).trim());
+    // Without spaces, break between characters but never inside a tag.
+    const words = hasSpaces ? joined.split(/\s+/) : joined.match(/<[^>]*>|\{\\[^}]*\}|./gsu) ?? [];
+    const separator = hasSpaces ? ' ' : '';
+    const wrapped: string[] = [];
+    let current = '';
+    for (const word of words) {
+        const candidate = current ? current + separator + word : word;
+        if (current && stripTags(candidate).length > maxLineLength) {
+            wrapped.push(current);
+            current = word;
+        } else {
+            current = candidate;
+        }
+    }
+    if (current) wrapped.push(current);
+    return wrapped.join('\n');
+};
+
+const contextOf = (cues: SubtitleCue[]) => cues.map(cue => stripTags(cue.text)).join('\n').slice(0, 1000) || undefined;
+
+/**
+ * Translates every cue of a subtitle document in batches, each sent with the cues around it
+ * as context. Timing, ids, settings and raw blocks are left untouched.
+ * @param provider The backend to translate with.
+ * @param document The parsed subtitles.
+ * @param sourceLanguage The language of the subtitles.
+ * @param targetLanguage The language to translate into.
+ * @param options Line-length limit, formality, glossary and abort signal.
+ * @param onProgress Called after each batch.
+ * @returns A new document with translated cue text.
+ */
+export const translateSubtitles = async (
+    provider: TranslationProvider,
+    document: SubtitleDocument,
+    sourceLanguage: string,
+    targetLanguage: string,
+    options: SubtitleTranslateOptions = {},
+    onProgress?: ChunkProgressCallback,
+): Promise<SubtitleDocument> => {
+    const { maxLineLength = DEFAULT_SUBTITLE_LINE_LENGTH, ...settings } = options;
+    // Cues with no visible text (tag-only or blank) are left as they are.
+    const cues = document.blocks.filter((block): block is SubtitleCue => block.kind === 'cue' && stripTags(block.text).trim() !== '');
+    const translated = new Map<SubtitleCue, string>();
+    const batchCount = Math.ceil(cues.length / BATCH_SIZE);
+
+    for (let start = 0; start < cues.length; start += BATCH_SIZE) {
+        const batch = cues.slice(start, start + BATCH_SIZE);
+        const translations = await provider.translateSegments(batch.map(cue => cue.text), sourceLanguage, targetLanguage, {
+            ...settings,
+            maxLineLength,
+            context: {
+                before: contextOf(cues.slice(Math.max(0, start - CONTEXT_CUES), start)),
+                after: contextOf(cues.slice(start + BATCH_SIZE, start + BATCH_SIZE + CONTEXT_CUES)),
+            },
+        });
+        if (translations.length !== batch.length) {
+            throw new TranslationError('empty-response', `Got ${translations.length} translations for ${batch.length} subtitle cues.`);
+        }
+        batch.forEach((cue, i) => translated.set(cue, wrapCueText(restoreTags(cue.text, translations[i]), maxLineLength)));
+        onProgress?.(start / BATCH_SIZE + 1, batchCount);
+    }
+
+    return {
+        ...document,
+        blocks: document.blocks.map(block => (block.kind === 'cue' && translated.has(block) ? { ...block, text: translated.get(block)! } : block)),
+    };
+};
@@ -0,0 +1,106 @@
+import { SpeakerTurn, TranslationProvider, TranslationSettings } from './translationProvider';
+import { ChunkProgressCallback } from './longText';
+import { formatTimestamp } from './audioSegmentation';
+import { SubtitleDocument, SubtitleFormat, serializeSubtitles, translateSubtitles } from './subtitles';
+
+/**
+ * Structured transcripts: timed turns with speaker labels, as returned by
+ * `transcribeWithSpeakers`, and their export as captions or JSON.
+ */
+
+export type TranscriptExportFormat = SubtitleFormat | 'json';
+
+/**
+ * Lists the speaker labels in order of first appearance.
+ */
+export const speakersOf = (turns: SpeakerTurn[]): string[] => [...new Set(turns.map(turn => turn.speaker))];
+
+/**
+ * Gives every turn of one speaker a new name. Renaming to an existing name merges the two speakers.
+ */
+export const renameSpeaker = (turns: SpeakerTurn[], from: string, to: string): SpeakerTurn[] => {
+    const name = to.trim();
+    if (!name || name === from) return turns;
+    return turns.map(turn => (turn.speaker === from ? { ...turn, speaker: name } : turn));
+};
+
+/**
+ * Formats turns as plain text for the input box, one "[mm:ss] Speaker: text" line per turn.
+ */
+export const formatSpeakerTranscript = (turns: SpeakerTurn[]): string =>
+    turns.map(turn => `${formatTimestamp(turn.start)} ${turn.speaker}: ${turn.text}`).join('\n');
+
+/**
+ * Formats a position as an SRT (00:01:02,500) or WebVTT (00:01:02.500) timestamp.
+ */
+export const formatCueTimestamp = (seconds: number, format: SubtitleFormat): string => {
+    const millis = Math.max(0, Math.round(seconds * 1000));
+    const pad = (value: number, length = 2) => String(value).padStart(length, '0');
+    const clock = `${pad(Math.floor(millis / 3600000))}:${pad(Math.floor(millis / 60000) % 60)}:${pad(Math.floor(millis / 1000) % 60)}`;
+    return `${clock}${format === 'srt' ? ',' : '.'}${pad(millis % 1000, 3)}`;
+};
+
+/**
+ * Builds a subtitle document with one cue per turn. Speakers are marked with WebVTT voice tags,
+ * or with a "Name:" prefix in SRT; a recording with a single speaker gets no marks.
+ * @param turns The transcript.
+ * @param format The subtitle format to build.
+ * @param texts Replacement cue texts (e.g. translations), one per turn; defaults to the transcript.
+ */
+export const transcriptToSubtitles = (turns: SpeakerTurn[], format: SubtitleFormat, texts = turns.map(turn => turn.text)): SubtitleDocument => {
+    const markSpeakers = speakersOf(turns).length > 1;
+    return {
+        format,
+        header: format === 'vtt' ? 'WEBVTT' : '',
+        blocks: turns.map((turn, i) => {
+            let text = texts[i] ?? turn.text;
+            if (markSpeakers) text = format === 'vtt' ? `<v ${turn.speaker}>${text}` : `${turn.speaker}: ${text}`;
+            return {
+                kind: 'cue' as const,
+                id: '',
+                start: formatCueTimestamp(turn.start, format),
+                end: formatCueTimestamp(Math.max(turn.end, turn.start + 0.5), format),
+                settings: '',
+                text,
+            };
+        }),
+        lineEnding: '\n',
+    };
+};
+
+/**
+ * Serializes a transcript in one of the export formats.
+ * @param turns The transcript.
+ * @param format SRT, WebVTT or JSON.
+ * @param translations Translated texts, one per turn. Captions then carry the translation;
+ *                     JSON keeps both, with the translation in a "translation" field.
+ */
+export const exportTranscript = (turns: SpeakerTurn[], format: TranscriptExportFormat, translations?: string[]): string => {
+    if (format !== 'json') return serializeSubtitles(transcriptToSubtitles(turns, format, translations));
+    const segments = turns.map((turn, i) => ({ ...turn, ...(translations ? { translation: translations[i] } : {}) }));
+    return `${JSON.stringify({ speakers: speakersOf(turns), segments }, null, 2)}\n`;
+};
+
+/**
+ * Translates the text of every turn, in caption-sized batches with the neighbouring turns as context.
+ * @param provider The backend to translate with.
+ * @param turns The transcript.
+ * @param sourceLanguage The language of the transcript.
+ * @param targetLanguage The language to translate into.
+ * @param options Formality, glossary and abort signal.
+ * @param onProgress Called after each batch.
+ * @returns The translations, one per turn.
+ */
+export const translateTranscript = async (
+    provider: TranslationProvider,
+    turns: SpeakerTurn[],
+    sourceLanguage: string,
+    targetLanguage: string,
+    options: TranslationSettings = {},
+    onProgress?: ChunkProgressCallback,
+): Promise<string[]> => {
+    // Speaker marks are left out so the names are never translated.
+    const plain = transcriptToSubtitles(turns.map(turn => ({ ...turn, speaker: '' })), 'srt');
+    const translated = await translateSubtitles(provider, plain, sourceLanguage, targetLanguage, options, onProgress);
+    return translated.blocks.map(block => block.text);
+};
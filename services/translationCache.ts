@@ -0,0 +1,205 @@
+import { Formality, GlossaryTerm, PhoneticScheme } from '../types';
+import { DetectedLanguage, TranslationAlternative, TranslationResult } from './translationProvider';
+
+const DB_NAME = 'bangla-language-bridge';
+const DB_VERSION = 2;
+const STORE_NAME = 'cache';
+// The size and last use of every entry, kept apart from the values so eviction never has to load them.
+const USAGE_STORE_NAME = 'usage';
+const DEFAULT_MAX_BYTES = 50 * 1024 * 1024;
+
+/** A cached translation, plus the detected source language when it was auto-detected. */
+export interface CachedTranslation extends TranslationResult {
+    detectedLanguage?: DetectedLanguage;
+    /** The scheme the phonetic guide is written in; entries without one use the simple guide. */
+    phoneticScheme?: PhoneticScheme;
+    /** The register the text was translated into. */
+    formality?: Formality;
+    /** Candidate translations, when they were requested; the first is `translation`. */
+    alternatives?: TranslationAlternative[];
+}
+
+/** Everything that determines the translated text. */
+export interface TranslationCacheKey {
+    text: string;
+    sourceLanguage: string;
+    targetLanguage: string;
+    formality: Formality;
+    /** The glossary rules that applied to the text. */
+    glossary: GlossaryTerm[];
+    /** Whether several candidate translations were asked for. */
+    withAlternatives: boolean;
+}
+
+interface CacheEntry {
+    key: string;
+    kind: 'translation' | 'audio';
+    value: CachedTranslation | string;
+}
+
+interface UsageRecord {
+    key: string;
+    /** Approximate stored size of the entry in bytes, used for the size budget. */
+    size: number;
+    lastAccessed: number;
+}
+
+export interface TranslationCache {
+    /** Looks up a previous translation of the same (normalized) text with the same settings. */
+    getTranslation(key: TranslationCacheKey): Promise<CachedTranslation | null>;
+    putTranslation(key: TranslationCacheKey, result: CachedTranslation): Promise<void>;
+    /** Looks up previously synthesized base64 PCM for the same text, language and voice. */
+    getAudio(text: string, language: string, voiceName: string): Promise<string | null>;
+    putAudio(text: string, language: string, voiceName: string, audio: string): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export interface TranslationCacheOptions {
+    /** Total size budget; least recently used entries are evicted beyond it. */
+    maxBytes?: number;
+}
+
+/**
+ * Normalizes input so trivially different spellings of the same phrase share a cache entry.
+ */
+export const normalizeCacheText = (text: string): string => text.normalize('NFC').trim().replace(/\s+/g, ' ');
+
+const buildKey = (kind: CacheEntry['kind'], ...parts: string[]): string => JSON.stringify([kind, ...parts]);
+
+const buildTranslationKey = ({ text, sourceLanguage, targetLanguage, formality, glossary, withAlternatives }: TranslationCacheKey): string =>
+    buildKey('translation', normalizeCacheText(text), sourceLanguage, targetLanguage, formality, JSON.stringify(glossary), withAlternatives ? 'alternatives' : 'single');
+
+// Wraps an IDBRequest in a promise.
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+// Resolves once a transaction has committed.
+const whenDone = (transaction: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+});
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+        const db = request.result;
+        // Version 1 kept sizes inside the entries; starting the cache over is simpler than migrating it.
+        if (db.objectStoreNames.contains(STORE_NAME)) db.deleteObjectStore(STORE_NAME);
+        db.createObjectStore(STORE_NAME, { keyPath: 'key' });
+        db.createObjectStore(USAGE_STORE_NAME, { keyPath: 'key' }).createIndex('lastAccessed', 'lastAccessed');
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+/**
+ * Creates a persistent, size-bounded LRU cache for translations and synthesized audio.
+ * Storage failures never break the app: lookups then miss and writes are dropped.
+ * @param options Optional size budget.
+ * @returns A TranslationCache backed by IndexedDB.
+ */
+export const createTranslationCache = ({ maxBytes = DEFAULT_MAX_BYTES }: TranslationCacheOptions = {}): TranslationCache => {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+    const getDatabase = () => {
+        if (!dbPromise) {
+            dbPromise = typeof indexedDB === 'undefined'
+                ? Promise.reject(new Error('IndexedDB is not available.'))
+                : openDatabase();
+        }
+        return dbPromise;
+    };
+
+    // Total size of all entries, summed from the usage records once and then kept up to date by put and evict.
+    let totalBytes = 0;
+    let totalLoaded: Promise<void> | null = null;
+    const loadTotal = (db: IDBDatabase) => {
+        if (!totalLoaded) {
+            totalLoaded = promisify(db.transaction(USAGE_STORE_NAME).objectStore(USAGE_STORE_NAME).getAll()).then((records: UsageRecord[]) => {
+                totalBytes = records.reduce((sum, record) => sum + record.size, 0);
+            }, e => {
+                totalLoaded = null;
+                throw e;
+            });
+        }
+        return totalLoaded;
+    };
+
+    const get = async (key: string): Promise<CacheEntry['value'] | null> => {
+        try {
+            const db = await getDatabase();
+            const transaction = db.transaction([STORE_NAME, USAGE_STORE_NAME], 'readwrite');
+            const entry: CacheEntry | undefined = await promisify(transaction.objectStore(STORE_NAME).get(key));
+            if (!entry) return null;
+            // Touch the entry so it becomes the most recently used.
+            const usage = transaction.objectStore(USAGE_STORE_NAME);
+            const record: UsageRecord | undefined = await promisify(usage.get(key));
+            if (record) usage.put({ ...record, lastAccessed: Date.now() });
+            return entry.value;
+        } catch (e) {
+            console.error('Could not read from the translation cache:', e);
+            return null;
+        }
+    };
+
+    // Drops least recently used entries until the store fits the size budget, walking the usage records oldest first.
+    const evict = async (db: IDBDatabase) => {
+        const transaction = db.transaction([STORE_NAME, USAGE_STORE_NAME], 'readwrite');
+        const entries = transaction.objectStore(STORE_NAME);
+        const cursorRequest = transaction.objectStore(USAGE_STORE_NAME).index('lastAccessed').openCursor();
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || totalBytes <= maxBytes) return;
+            const { key, size } = cursor.value as UsageRecord;
+            entries.delete(key);
+            cursor.delete();
+            totalBytes -= size;
+            cursor.continue();
+        };
+        await whenDone(transaction);
+    };
+
+    const put = async (key: string, kind: CacheEntry['kind'], value: CacheEntry['value']) => {
+        try {
+            const db = await getDatabase();
+            const size = (typeof value === 'string' ? value.length : JSON.stringify(value).length) * 2;
+            if (size > maxBytes) return;
+            await loadTotal(db);
+            const transaction = db.transaction([STORE_NAME, USAGE_STORE_NAME], 'readwrite');
+            const usage = transaction.objectStore(USAGE_STORE_NAME);
+            const previous: UsageRecord | undefined = await promisify(usage.get(key));
+            const entry: CacheEntry = { key, kind, value };
+            const record: UsageRecord = { key, size, lastAccessed: Date.now() };
+            transaction.objectStore(STORE_NAME).put(entry);
+            usage.put(record);
+            await whenDone(transaction);
+            totalBytes += size - (previous?.size ?? 0);
+            if (totalBytes > maxBytes) await evict(db);
+        } catch (e) {
+            console.error('Could not write to the translation cache:', e);
+        }
+    };
+
+    return {
+        getTranslation: async key => (await get(buildTranslationKey(key))) as CachedTranslation | null,
+        putTranslation: (key, result) => put(buildTranslationKey(key), 'translation', { ...result, formality: key.formality }),
+        getAudio: async (text, language, voiceName) =>
+            (await get(buildKey('audio', normalizeCacheText(text), language, voiceName))) as string | null,
+        putAudio: (text, language, voiceName, audio) =>
+            put(buildKey('audio', normalizeCacheText(text), language, voiceName), 'audio', audio),
+        clear: async () => {
+            try {
+                const db = await getDatabase();
+                const transaction = db.transaction([STORE_NAME, USAGE_STORE_NAME], 'readwrite');
+                transaction.objectStore(STORE_NAME).clear();
+                transaction.objectStore(USAGE_STORE_NAME).clear();
+                await whenDone(transaction);
+                totalBytes = 0;
+            } catch (e) {
+                console.error('Could not clear the translation cache:', e);
+            }
+        },
+    };
+};
@@ -0,0 +1,54 @@
+import { Formality } from '../types';
+
+/** A finished translation, kept so it can be looked up and restored later. */
+export interface HistoryEntry {
+    id: string;
+    /** When the translation finished, in milliseconds since the epoch. */
+    time: number;
+    text: string;
+    translation: string;
+    /** The source language as selected, which may be AUTO_DETECT_LANGUAGE. */
+    sourceLanguage: string;
+    targetLanguage: string;
+    /** The register the translation was made in. */
+    formality: Formality;
+}
+
+const STORAGE_KEY = 'translationHistory';
+const MAX_HISTORY_ENTRIES = 50;
+
+const sameRequest = (a: HistoryEntry, b: Omit<HistoryEntry, 'id' | 'time'>) =>
+    a.text === b.text && a.sourceLanguage === b.sourceLanguage && a.targetLanguage === b.targetLanguage && a.formality === b.formality;
+
+/**
+ * Reads the saved history from localStorage, newest first.
+ * @returns The entries, or none if nothing is saved or storage is unavailable.
+ */
+export const loadHistory = (): HistoryEntry[] => {
+    try {
+        const stored = localStorage.getItem(STORAGE_KEY);
+        if (!stored) return [];
+        const parsed = JSON.parse(stored) as HistoryEntry[];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+        console.error('Could not read the translation history from localStorage:', e);
+        return [];
+    }
+};
+
+export const saveHistory = (entries: HistoryEntry[]) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+    } catch (e) {
+        console.error('Could not write the translation history to localStorage:', e);
+    }
+};
+
+/**
+ * Adds a translation to the front of the history. Translating the same text with the same
+ * languages and register again replaces the older entry; the oldest entries past the limit are dropped.
+ */
+export const addHistoryEntry = (entries: HistoryEntry[], entry: Omit<HistoryEntry, 'id' | 'time'>, now = Date.now()): HistoryEntry[] => [
+    { ...entry, id: `${now}-${Math.random().toString(36).slice(2, 8)}`, time: now },
+    ...entries.filter(other => !sameRequest(other, entry)),
+].slice(0, MAX_HISTORY_ENTRIES);
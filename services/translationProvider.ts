@@ -0,0 +1,187 @@
+import { Formality, GlossaryTerm, PhoneticScheme } from '../types';
+
+export interface RequestOptions {
+    /** Aborts the request; the returned promise then rejects with an AbortError. */
+    signal?: AbortSignal;
+}
+
+/** Settings that shape the wording of a translation. */
+export interface TranslationSettings extends RequestOptions {
+    /** The register to translate into; defaults to neutral. */
+    formality?: Formality;
+    /** Terms that must be translated exactly as given (or kept as is, when mapped to themselves). */
+    glossary?: GlossaryTerm[];
+}
+
+/** Neighbouring text from the same document, sent along when a long text is translated in chunks. */
+export interface TranslationContext {
+    /** The source text just before the chunk. */
+    before?: string;
+    /** The source text just after the chunk. */
+    after?: string;
+}
+
+export interface TranslateOptions extends TranslationSettings {
+    /** Surrounding source text, for consistency only; it is not translated. */
+    context?: TranslationContext;
+    /**
+     * Called with the accumulated translation each time more of it streams in.
+     * The promise returned by translateText still resolves with the final text.
+     */
+    onPartial?: (partialText: string) => void;
+}
+
+export interface SegmentTranslateOptions extends TranslationSettings {
+    /** Text around the batch, for consistency only; it is not translated. */
+    context?: TranslationContext;
+    /** The longest line each translated segment should have, e.g. for subtitles. */
+    maxLineLength?: number;
+}
+
+export interface PhoneticOptions extends RequestOptions {
+    /** The transcription system for the guide; defaults to the simple English-letters guide. */
+    scheme?: PhoneticScheme;
+}
+
+export interface StructuredTranslateOptions extends TranslateOptions {
+    /** Also ask for a Latin-script romanization of the translation. */
+    includeRomanization?: boolean;
+    /** The transcription system for the phonetic guide; defaults to the simple guide. */
+    phoneticScheme?: PhoneticScheme;
+    /**
+     * Called once the translation itself is final, before the phonetic guide has arrived,
+     * so work that only needs the translated text (like TTS) can start early.
+     */
+    onTranslation?: (translation: string) => void;
+}
+
+/** The combined result of a single translate-and-pronounce call. */
+export interface TranslationResult {
+    translation: string;
+    phonetic: string;
+    romanization?: string;
+}
+
+/** One candidate rendering, with a note on how it differs from the others. */
+export interface TranslationAlternative {
+    translation: string;
+    /** Literal vs. idiomatic meaning and register, in a sentence or two. */
+    note: string;
+}
+
+/** One stretch of a recording spoken by a single speaker. */
+export interface SpeakerTurn {
+    /** Start and end, in seconds from the beginning of the recording. */
+    start: number;
+    end: number;
+    /** A label such as "Speaker 1"; the same voice keeps the same label within a recording. */
+    speaker: string;
+    text: string;
+}
+
+/** The result of language identification. */
+export interface DetectedLanguage {
+    /** A language name, matching SUPPORTED_LANGUAGES where possible. */
+    language: string;
+    /** How sure the detector is, from 0 to 1. */
+    confidence: number;
+}
+
+/**
+ * The set of operations the app needs from a speech and translation backend.
+ * App.tsx only talks to this interface, so the Gemini backend can be swapped
+ * for the offline mock (or anything else) without touching the UI.
+ */
+export interface TranslationProvider {
+    /**
+     * Identifies the language of typed text or of speech in a recording.
+     * @param input The text, or the audio data as a Blob.
+     * @param options Optional abort signal.
+     * @returns A promise that resolves to the detected language and a confidence score.
+     */
+    detectLanguage(input: string | Blob, options?: RequestOptions): Promise<DetectedLanguage>;
+
+    /**
+     * Transcribes a recorded audio clip.
+     * @param audioBlob The audio data as a Blob.
+     * @param sourceLanguage The language spoken in the recording.
+     * @param options Optional abort signal.
+     * @returns A promise that resolves to the transcribed text.
+     */
+    transcribeAudio(audioBlob: Blob, sourceLanguage: string, options?: RequestOptions): Promise<string>;
+
+    /**
+     * Transcribes a recording into timed turns, telling the speakers apart.
+     * @param audioBlob The audio data as a Blob.
+     * @param sourceLanguage The language spoken in the recording.
+     * @param options Optional abort signal.
+     * @returns A promise that resolves to the turns, in order.
+     */
+    transcribeWithSpeakers(audioBlob: Blob, sourceLanguage: string, options?: RequestOptions): Promise<SpeakerTurn[]>;
+
+    /**
+     * Translates text from a source language to a target language.
+     * @param text The text to translate.
+     * @param sourceLanguage The language of the input text.
+     * @param targetLanguage The language to translate into.
+     * @param options Optional streaming callback, surrounding context, formality, glossary and abort signal.
+     * @returns A promise that resolves to the translated text.
+     */
+    translateText(text: string, sourceLanguage: string, targetLanguage: string, options?: TranslateOptions): Promise<string>;
+
+    /**
+     * Translates text and produces its pronunciation guide in one round trip.
+     * @param text The text to translate.
+     * @param sourceLanguage The language of the input text.
+     * @param targetLanguage The language to translate into.
+     * @param options Optional streaming callbacks, formality, glossary, romanization flag, phonetic scheme and abort signal.
+     * @returns A promise that resolves to the translation, phonetic guide and optional romanization.
+     */
+    translateWithPhonetics(text: string, sourceLanguage: string, targetLanguage: string, options?: StructuredTranslateOptions): Promise<TranslationResult>;
+
+    /**
+     * Translates a batch of consecutive segments (subtitle cues, UI strings) in one call,
+     * keeping markup tags and placeholders and returning one translation per segment.
+     * @param segments The texts to translate, in order.
+     * @param sourceLanguage The language of the segments.
+     * @param targetLanguage The language to translate into.
+     * @param options Optional surrounding context, line-length limit, formality, glossary and abort signal.
+     * @returns A promise that resolves to the translations, in the same order.
+     */
+    translateSegments(segments: string[], sourceLanguage: string, targetLanguage: string, options?: SegmentTranslateOptions): Promise<string[]>;
+
+    /**
+     * Suggests several candidate translations, best first, for idioms and other text with more than one good rendering.
+     * @param text The text to translate.
+     * @param sourceLanguage The language of the input text.
+     * @param targetLanguage The language to translate into.
+     * @param options Optional formality, glossary and abort signal.
+     * @returns A promise that resolves to 2–4 alternatives.
+     */
+    getAlternatives(text: string, sourceLanguage: string, targetLanguage: string, options?: TranslationSettings): Promise<TranslationAlternative[]>;
+
+    /**
+     * Generates a phonetic pronunciation guide for text.
+     * @param text The text to get pronunciation for.
+     * @param language The language of the text.
+     * @param options Optional transcription scheme and abort signal.
+     * @returns A promise that resolves to the phonetic guide.
+     */
+    getPhoneticTranscription(text: string, language: string, options?: PhoneticOptions): Promise<string>;
+
+    /**
+     * Converts text to speech.
+     * @param text The text to convert to audio.
+     * @param language The language of the text.
+     * @param voiceName The desired voice for the TTS output.
+     * @param options Optional abort signal.
+     * @returns A promise that resolves to base64 encoded raw PCM (24 kHz, mono, 16-bit).
+     */
+    textToSpeech(text: string, language: string, voiceName: string, options?: RequestOptions): Promise<string>;
+}
+
+/**
+ * Tells whether an error was caused by aborting a request, as opposed to a real failure.
+ */
+export const isAbortError = (err: unknown): boolean =>
+    typeof err === 'object' && err !== null && (err as { name?: string }).name === 'AbortError';
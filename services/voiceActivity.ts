@@ -0,0 +1,159 @@
+/**
+ * Energy-based voice activity detection on the microphone analyser, used to end a recording
+ * on its own once the speaker has gone quiet, or when it reaches the length limit.
+ */
+
+export interface VoiceActivitySettings {
+    /** Silence after speech that ends the recording, in milliseconds; 0 turns auto-stop off. */
+    silenceMs: number;
+    /** The longest a recording may run, in milliseconds. */
+    maxMs: number;
+}
+
+export type RecordingStopReason = 'silence' | 'max-length';
+
+export interface VoiceActivityState {
+    /** Root-mean-square level of the latest frame, from 0 to 1. */
+    level: number;
+    /** The level above which a frame counts as speech. */
+    threshold: number;
+    isSpeech: boolean;
+    /** Whether any speech has been heard yet; auto-stop waits for it. */
+    hasSpeech: boolean;
+    /** How long the current silence after speech has lasted. */
+    silenceMs: number;
+    elapsedMs: number;
+    /** Set once the recording should end. */
+    stopReason: RecordingStopReason | null;
+}
+
+export interface VoiceActivityDetector {
+    /**
+     * Feeds one analyser frame (from getByteTimeDomainData) and returns the updated state.
+     * @param samples Unsigned 8-bit samples centred on 128.
+     * @param now The frame time in milliseconds, e.g. performance.now().
+     */
+    update: (samples: Uint8Array, now: number) => VoiceActivityState;
+}
+
+// Speech has to stand this far above the background noise, and never below the floor level.
+const NOISE_MARGIN = 3;
+const MIN_SPEECH_LEVEL = 0.015;
+// How fast the noise estimate follows a rising background during pauses, per frame (it drops immediately).
+// It never rises during speech, so a long sentence is not mistaken for background noise.
+const NOISE_RISE_RATE = 0.002;
+
+/**
+ * Root-mean-square level of an analyser frame, from 0 (silence) to 1 (full scale).
+ */
+export const timeDomainLevel = (samples: Uint8Array): number => {
+    let sum = 0;
+    for (const sample of samples) {
+        const value = (sample - 128) / 128;
+        sum += value * value;
+    }
+    return Math.sqrt(sum / Math.max(1, samples.length));
+};
+
+/**
+ * Maps a level to 0..1 on a decibel scale from -60 dB to 0 dB, for drawing meters.
+ */
+export const levelToMeter = (level: number): number =>
+    Math.min(1, Math.max(0, (20 * Math.log10(Math.max(level, 1e-6)) + 60) / 60));
+
+/**
+ * Creates a detector that tracks the background noise level and reports when speech
+ * has been followed by enough silence, or the recording has run too long.
+ */
+export const createVoiceActivityDetector = ({ silenceMs, maxMs }: VoiceActivitySettings): VoiceActivityDetector => {
+    let startedAt: number | null = null;
+    let lastSpeechAt = 0;
+    let noiseFloor: number | null = null;
+    let hasSpeech = false;
+
+    return {
+        update: (samples, now) => {
+            startedAt ??= now;
+            const level = timeDomainLevel(samples);
+            noiseFloor = noiseFloor === null || level < noiseFloor ? level : noiseFloor;
+            const threshold = Math.max(MIN_SPEECH_LEVEL, noiseFloor * NOISE_MARGIN);
+            const isSpeech = level >= threshold;
+            if (isSpeech) {
+                hasSpeech = true;
+                lastSpeechAt = now;
+            } else {
+                noiseFloor += (level - noiseFloor) * NOISE_RISE_RATE;
+            }
+
+            const elapsedMs = now - startedAt;
+            const silence = hasSpeech ? now - lastSpeechAt : 0;
+            let stopReason: RecordingStopReason | null = null;
+            if (elapsedMs >= maxMs) stopReason = 'max-length';
+            else if (silenceMs > 0 && hasSpeech && silence >= silenceMs) stopReason = 'silence';
+            return { level, threshold, isSpeech, hasSpeech, silenceMs: silence, elapsedMs, stopReason };
+        },
+    };
+};
+
+export interface RecordUtteranceOptions {
+    /** Ends the recording early; the promise then rejects with an AbortError. */
+    signal?: AbortSignal;
+    /** Receives the detector state on every check, e.g. to draw a level meter. */
+    onActivity?: (state: VoiceActivityState) => void;
+}
+
+// How often the analyser is read; a timer rather than animation frames, so it keeps running without a canvas.
+const CHECK_INTERVAL_MS = 50;
+
+/**
+ * Records one utterance from a microphone stream, ending on its own once the speaker goes quiet
+ * (or at the length limit). The stream is left open for the next utterance.
+ * @param stream The microphone stream.
+ * @param settings The silence that ends the utterance and its length limit.
+ * @param options Optional abort signal and activity callback.
+ * @returns The recording, and whether any speech was heard in it.
+ */
+export const recordUtterance = (stream: MediaStream, settings: VoiceActivitySettings, options: RecordUtteranceOptions = {}): Promise<{ recording: Blob; hasSpeech: boolean }> => {
+    const { signal, onActivity } = options;
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+            return;
+        }
+        // Created before the AudioContext: if the stream can't be recorded, there is nothing to close yet.
+        const recorder = new MediaRecorder(stream);
+        const audioContext = new AudioContext();
+        const analyser = audioContext.createAnalyser();
+        analyser.fftSize = 2048;
+        audioContext.createMediaStreamSource(stream).connect(analyser);
+        const samples = new Uint8Array(analyser.frequencyBinCount);
+        const detector = createVoiceActivityDetector(settings);
+        const chunks: Blob[] = [];
+        let hasSpeech = false;
+
+        // The detector may already have stopped the recorder; onstop then sees the abort and rejects.
+        const onAbort = () => {
+            if (recorder.state === 'recording') recorder.stop();
+        };
+        const timer = setInterval(() => {
+            analyser.getByteTimeDomainData(samples);
+            const state = detector.update(samples, performance.now());
+            hasSpeech = state.hasSpeech;
+            onActivity?.(state);
+            if (state.stopReason && recorder.state === 'recording') recorder.stop();
+        }, CHECK_INTERVAL_MS);
+
+        recorder.ondataavailable = (event) => {
+            if (event.data.size > 0) chunks.push(event.data);
+        };
+        recorder.onstop = () => {
+            clearInterval(timer);
+            signal?.removeEventListener('abort', onAbort);
+            audioContext.close();
+            if (signal?.aborted) reject(signal.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+            else resolve({ recording: new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }), hasSpeech });
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+        recorder.start();
+    });
+};
@@ -0,0 +1,166 @@
+/**
+ * Word timings for following the spoken translation along in the text. The speech model returns
+ * no timestamps, so they are estimated from the audio: pauses split the speech into phrases,
+ * which are matched to the punctuated phrases of the text, and each phrase's time is shared
+ * among its words by length.
+ */
+
+export interface TimedWord {
+    text: string;
+    /** Character offset of the word in the text. */
+    offset: number;
+    /** When the word is spoken, in seconds from the start of the audio. */
+    start: number;
+    end: number;
+}
+
+interface Word {
+    text: string;
+    offset: number;
+    /** Whether a phrase ends after the word, i.e. the speaker is expected to pause. */
+    endsPhrase: boolean;
+}
+
+interface SpeechRegion {
+    start: number;
+    end: number;
+}
+
+const FRAME_SECONDS = 0.02;
+// Frames quieter than this fraction of the loudest frame count as silence.
+const SILENCE_RATIO = 0.05;
+const MIN_SILENCE_LEVEL = 0.005;
+// Shorter dips are stops and breaths inside a phrase rather than pauses between phrases.
+const MIN_PAUSE_SECONDS = 0.12;
+// Punctuation after which speech synthesis usually pauses, across the supported scripts.
+const PHRASE_END = /[.,!?;:…。、，！？；：।॥؟،]/;
+
+/**
+ * Splits text into words, using the browser's word segmenter where available so that
+ * scripts written without spaces (Chinese, Japanese, Thai) are split too.
+ * @param locale The language code of the text.
+ */
+const splitWords = (text: string, locale?: string): Word[] => {
+    const spans: { text: string; offset: number }[] = [];
+    if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+        for (const segment of new Intl.Segmenter(locale, { granularity: 'word' }).segment(text)) {
+            if (segment.isWordLike) spans.push({ text: segment.segment, offset: segment.index });
+        }
+    } else {
+        for (const match of text.matchAll(/\S+/g)) spans.push({ text: match[0], offset: match.index ?? 0 });
+    }
+    return spans.map((span, i) => {
+        const gap = text.slice(span.offset + span.text.length, spans[i + 1]?.offset ?? text.length);
+        return { ...span, endsPhrase: PHRASE_END.test(gap) || /\n/.test(gap) };
+    });
+};
+
+// Finds the stretches of speech in 16-bit mono PCM, ignoring dips shorter than a pause.
+const findSpeechRegions = (pcm: Int16Array, sampleRate: number): SpeechRegion[] => {
+    const frameLength = Math.max(1, Math.round(sampleRate * FRAME_SECONDS));
+    const levels: number[] = [];
+    for (let start = 0; start < pcm.length; start += frameLength) {
+        const end = Math.min(pcm.length, start + frameLength);
+        let sum = 0;
+        for (let i = start; i < end; i++) sum += (pcm[i] / 32768) ** 2;
+        levels.push(Math.sqrt(sum / (end - start)));
+    }
+    const threshold = Math.max(MIN_SILENCE_LEVEL, levels.reduce((peak, level) => Math.max(peak, level), 0) * SILENCE_RATIO);
+
+    const regions: SpeechRegion[] = [];
+    levels.forEach((level, frame) => {
+        if (level < threshold) return;
+        const start = frame * FRAME_SECONDS;
+        const last = regions[regions.length - 1];
+        if (last && start - last.end < MIN_PAUSE_SECONDS) last.end = start + FRAME_SECONDS;
+        else regions.push({ start, end: start + FRAME_SECONDS });
+    });
+    return regions;
+};
+
+// Merges the regions separated by the shortest pauses until no more than `count` remain.
+const mergeRegions = (regions: SpeechRegion[], count: number): SpeechRegion[] => {
+    const merged = regions.map(region => ({ ...region }));
+    while (merged.length > Math.max(1, count)) {
+        let shortest = 1;
+        for (let i = 2; i < merged.length; i++) {
+            if (merged[i].start - merged[i - 1].end < merged[shortest].start - merged[shortest - 1].end) shortest = i;
+        }
+        merged[shortest - 1].end = merged[shortest].end;
+        merged.splice(shortest, 1);
+    }
+    return merged;
+};
+
+// Shares the speaking time of the regions among the words in proportion to their length, skipping the pauses between regions.
+const distribute = (words: Word[], regions: SpeechRegion[]): TimedWord[] => {
+    const weights = words.map(word => word.text.length + 1);
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+    const speechTime = regions.reduce((sum, region) => sum + region.end - region.start, 0);
+    // Maps a position in speaking time (pauses removed) back to a time in the audio.
+    const toAudioTime = (position: number) => {
+        for (const region of regions) {
+            const length = region.end - region.start;
+            if (position <= length) return region.start + position;
+            position -= length;
+        }
+        return regions[regions.length - 1].end;
+    };
+
+    let spoken = 0;
+    return words.map((word, i) => {
+        const start = toAudioTime((spoken / totalWeight) * speechTime);
+        spoken += weights[i];
+        // Nudged back so a word ending exactly at a region boundary is not placed after the pause.
+        const end = toAudioTime((spoken / totalWeight) * speechTime - 1e-6);
+        return { text: word.text, offset: word.offset, start, end: Math.max(start, end) };
+    });
+};
+
+/**
+ * Estimates when each word of a text is spoken in its synthesized speech.
+ * @param text The text that was spoken.
+ * @param pcmData The speech, as raw 16-bit mono PCM.
+ * @param sampleRate The sample rate of the PCM.
+ * @param locale The language code of the text, for splitting it into words.
+ * @returns The words in order with their estimated times; empty if the audio is silent.
+ */
+export const estimateWordTimings = (text: string, pcmData: Uint8Array, sampleRate: number, locale?: string): TimedWord[] => {
+    const words = splitWords(text, locale);
+    const pcm = new Int16Array(pcmData.buffer, pcmData.byteOffset, Math.floor(pcmData.byteLength / 2));
+    const regions = findSpeechRegions(pcm, sampleRate);
+    if (words.length === 0 || regions.length === 0) return [];
+
+    const phrases: Word[][] = [[]];
+    words.forEach((word, i) => {
+        phrases[phrases.length - 1].push(word);
+        if (word.endsPhrase && i < words.length - 1) phrases.push([]);
+    });
+    // When the pauses can be matched to the punctuation, each phrase is timed within its own stretch of speech.
+    if (regions.length >= phrases.length) {
+        const phraseRegions = mergeRegions(regions, phrases.length);
+        return phrases.flatMap((phrase, i) => distribute(phrase, [phraseRegions[i]]));
+    }
+    return distribute(words, regions);
+};
+
+/**
+ * Finds the word being spoken at a playback position: the last word that has started,
+ * so the highlight stays on a word through the pause after it.
+ * @returns The word's index, or -1 before the first word.
+ */
+export const wordAt = (words: TimedWord[], time: number): number => {
+    let low = 0;
+    let high = words.length - 1;
+    let found = -1;
+    while (low <= high) {
+        const middle = (low + high) >> 1;
+        if (words[middle].start <= time) {
+            found = middle;
+            low = middle + 1;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return found;
+};
@@ -8,3 +8,36 @@ export interface Voice {
   name: string;
   code: string;
 }
+
+export type PhoneticScheme = 'simple' | 'ipa' | 'iso15919' | 'pinyin' | 'hepburn';
+
+export interface PhoneticSchemeInfo {
+  id: PhoneticScheme;
+  name: string;
+  /** Languages the scheme applies to; all languages when omitted. */
+  languages?: string[];
+}
+
+export type Formality = 'formal' | 'neutral' | 'casual' | 'intimate';
+
+export interface FormalityLevel {
+  id: Formality;
+  name: string;
+  /** How the register is described to the translator. */
+  description: string;
+}
+
+/** A glossary rule sent with a translation request; a term mapped to itself must stay untranslated. */
+export interface GlossaryTerm {
+  source: string;
+  target: string;
+}
+
+export type AudioExportFormat = 'wav' | 'mp3' | 'webm';
+
+export interface AudioExportFormatInfo {
+  id: AudioExportFormat;
+  name: string;
+  extension: string;
+  mimeType: string;
+}
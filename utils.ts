@@ -1,3 +1,23 @@
+// Waits for the given time, rejecting with an AbortError if the signal fires first.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const abort = () => reject(signal?.reason ?? new DOMException('The operation was aborted.', 'AbortError'));
+    if (signal?.aborted) {
+      abort();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      abort();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
 // Base64 encoding for browser
 export const blobToBase64 = (blob: Blob): Promise<string> => {
   return new Promise((resolve, reject) => {
@@ -23,6 +43,27 @@ export const decode = (base64: string): Uint8Array => {
   return bytes;
 };
 
+// Base64 encoding of raw bytes (the inverse of decode)
+export const encode = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+// Saves text content as a file through a temporary download link
+export const downloadFile = (content: string, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
 // Decode raw PCM audio data into an AudioBuffer
 export const decodeAudioData = async (
   data: Uint8Array,
@@ -50,6 +91,33 @@ const writeString = (view: DataView, offset: number, string: string) => {
     }
 };
 
+/** RIFF INFO metadata, keyed by four-character field ID (INAM title, ISBJ subject, ICMT comment, ICRD date, ISFT software). */
+export type WavInfo = Record<string, string>;
+
+// Builds a LIST/INFO chunk; values are stored as null-terminated UTF-8, each padded to an even length.
+const buildInfoChunk = (info: WavInfo): Uint8Array | null => {
+    const encoder = new TextEncoder();
+    const fields = Object.entries(info)
+        .filter(([id, value]) => id.length === 4 && value)
+        .map(([id, value]) => ({ id, bytes: encoder.encode(`${value}\0`) }));
+    if (fields.length === 0) return null;
+
+    const listSize = fields.reduce((size, { bytes }) => size + 8 + bytes.length + (bytes.length % 2), 4);
+    const chunk = new Uint8Array(8 + listSize);
+    const view = new DataView(chunk.buffer);
+    writeString(view, 0, 'LIST');
+    view.setUint32(4, listSize, true);
+    writeString(view, 8, 'INFO');
+    let offset = 12;
+    for (const { id, bytes } of fields) {
+        writeString(view, offset, id);
+        view.setUint32(offset + 4, bytes.length, true);
+        chunk.set(bytes, offset + 8);
+        offset += 8 + bytes.length + (bytes.length % 2);
+    }
+    return chunk;
+};
+
 /**
  * Converts raw PCM audio data into a WAV file Blob, which can be played by an <audio> element.
  * This allows for features like pitch-preserved playback speed changes.
@@ -57,12 +125,16 @@ const writeString = (view: DataView, offset: number, string: string) => {
  * @param sampleRate The sample rate of the audio (e.g., 24000).
  * @param numChannels The number of audio channels (e.g., 1 for mono).
  * @param bitsPerSample The number of bits per sample (e.g., 16).
+ * @param info Optional metadata, written as a LIST/INFO chunk after the audio.
  * @returns A Blob representing the WAV file.
  */
-export const pcmToWavBlob = (pcmData: Uint8Array, sampleRate: number, numChannels: number, bitsPerSample: number): Blob => {
+export const pcmToWavBlob = (pcmData: Uint8Array, sampleRate: number, numChannels: number, bitsPerSample: number, info?: WavInfo): Blob => {
     const dataSize = pcmData.byteLength;
+    const infoChunk = info ? buildInfoChunk(info) : null;
+    // Chunks start on even offsets, so odd-sized data is followed by a pad byte.
+    const trailerSize = infoChunk ? (dataSize % 2) + infoChunk.byteLength : 0;
     // The WAV header is 44 bytes.
-    const buffer = new ArrayBuffer(44 + dataSize);
+    const buffer = new ArrayBuffer(44 + dataSize + trailerSize);
     const view = new DataView(buffer);
 
     const blockAlign = numChannels * (bitsPerSample / 8);
@@ -70,7 +142,7 @@ export const pcmToWavBlob = (pcmData: Uint8Array, sampleRate: number, numChannel
 
     // RIFF header
     writeString(view, 0, 'RIFF');
-    view.setUint32(4, 36 + dataSize, true); // (file size - 8)
+    view.setUint32(4, 36 + dataSize + trailerSize, true); // (file size - 8)
     writeString(view, 8, 'WAVE');
     
     // "fmt " sub-chunk
@@ -92,6 +164,38 @@ export const pcmToWavBlob = (pcmData: Uint8Array, sampleRate: number, numChannel
     for (let i = 0; i < dataSize; i++) {
         view.setUint8(44 + i, pcmBytes[i]);
     }
+    if (infoChunk) {
+        new Uint8Array(buffer).set(infoChunk, 44 + dataSize + (dataSize % 2));
+    }
 
     return new Blob([view], { type: 'audio/wav' });
 };
+
+/**
+ * Joins chunks of 16-bit mono PCM into one stream, crossfading each seam so separately
+ * synthesized sentences play back without clicks.
+ * @param parts The PCM chunks in playback order.
+ * @param sampleRate The sample rate of the audio (e.g., 24000).
+ * @param crossfadeMs How long consecutive chunks overlap; shortened for very short chunks.
+ * @returns The stitched PCM data.
+ */
+export const stitchPcm = (parts: Uint8Array[], sampleRate: number, crossfadeMs = 20): Uint8Array => {
+    const samples = parts.map(part => new Int16Array(part.buffer, part.byteOffset, Math.floor(part.byteLength / 2)));
+    const fadeLength = Math.round((sampleRate * crossfadeMs) / 1000);
+    const overlaps = samples.map((part, i) => (i === 0 ? 0 : Math.min(fadeLength, Math.floor(part.length / 2), Math.floor(samples[i - 1].length / 2))));
+    const total = samples.reduce((sum, part, i) => sum + part.length - overlaps[i], 0);
+
+    const out = new Int16Array(total);
+    let offset = 0;
+    samples.forEach((part, i) => {
+        const start = offset - overlaps[i];
+        // Linear fade: the previous chunk's tail fades out while this chunk's head fades in.
+        for (let j = 0; j < overlaps[i]; j++) {
+            const weight = (j + 1) / (overlaps[i] + 1);
+            out[start + j] = Math.round(out[start + j] * (1 - weight) + part[j] * weight);
+        }
+        out.set(part.subarray(overlaps[i]), offset);
+        offset = start + part.length;
+    });
+    return new Uint8Array(out.buffer);
+};
@@ -8,11 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The Gemini API key lives in the proxy server (npm run server), never in the bundle.
+          '/api': `http://localhost:${env.PROXY_PORT || 8787}`,
+        },
       },
       plugins: [react()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.TRANSLATION_PROVIDER': JSON.stringify(env.TRANSLATION_PROVIDER)
       },
       resolve: {
         alias: {